@@ -0,0 +1,214 @@
+import { describe, expect, it } from "vitest";
+import { createAudioAnalyzer, defaultAnalysisSettings, normalizeAnalysisSettings } from "./analyzer";
+import { analyzeSignal } from "./offline";
+
+const SAMPLE_RATE = 48000;
+
+function sine(frequency: number, seconds: number, amplitude = 0.5): Float32Array {
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+  }
+  return samples;
+}
+
+// Exponential sweep from one frequency to another
+function sweep(from: number, to: number, seconds: number, amplitude = 0.5): Float32Array {
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  const rate = Math.log(to / from) / seconds;
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / SAMPLE_RATE;
+    const phase = (2 * Math.PI * from * (Math.exp(rate * t) - 1)) / rate;
+    samples[i] = amplitude * Math.sin(phase);
+  }
+  return samples;
+}
+
+// Impulses at a fixed tempo; each one rings down over a few ms so it can't fall between analysis windows
+function impulseTrain(bpm: number, seconds: number): { samples: Float32Array; times: number[] } {
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  const times: number[] = [];
+  const period = 60000 / bpm;
+  const ringSamples = Math.round(0.03 * SAMPLE_RATE);
+  let seed = 1;
+
+  for (let time = 500; time < seconds * 1000 - 100; time += period) {
+    times.push(time);
+    const start = Math.round((time / 1000) * SAMPLE_RATE);
+    for (let i = 0; i < ringSamples && start + i < samples.length; i++) {
+      seed = (seed * 1103515245 + 12345) % 2147483648; // Deterministic noise
+      samples[start + i] = (seed / 1073741824 - 1) * Math.exp(-i / (0.005 * SAMPLE_RATE));
+    }
+  }
+  return { samples, times };
+}
+
+// Frames from the last part of a signal, once smoothing and AGC have settled
+const settled = <T extends { t: number }>(frames: T[], fromMs: number) => frames.filter((frame) => frame.t >= fromMs);
+
+describe("audio analyzer", () => {
+  it("reports nothing for silence", () => {
+    const frames = analyzeSignal(new Float32Array(SAMPLE_RATE * 2), SAMPLE_RATE);
+
+    expect(frames.length).toBeGreaterThan(100);
+    for (const { data } of frames) {
+      expect(data.bass).toBe(0);
+      expect(data.mids).toBe(0);
+      expect(data.highs).toBe(0);
+      expect(data.energy).toBe(0);
+      expect(data.beat).toBe(false);
+      expect(data.bpm).toBe(0);
+      expect(data.spectrum.every((value) => value === 0)).toBe(true);
+      expect(data.waveform.every((value) => value === 128)).toBe(true);
+    }
+  });
+
+  it("puts a low tone in the bass band", () => {
+    const frames = settled(analyzeSignal(sine(60, 2), SAMPLE_RATE), 1000);
+
+    for (const { data } of frames) {
+      expect(data.bass).toBeGreaterThan(0.3);
+      expect(data.bass).toBeGreaterThan(data.mids * 2);
+      expect(data.bass).toBeGreaterThan(data.highs * 2);
+    }
+  });
+
+  it("puts a mid tone in the mids band", () => {
+    const frames = settled(analyzeSignal(sine(1000, 2), SAMPLE_RATE), 1000);
+
+    for (const { data } of frames) {
+      expect(data.mids).toBeGreaterThan(data.bass);
+      expect(data.mids).toBeGreaterThan(data.highs);
+    }
+  });
+
+  it("puts a high tone in the highs band", () => {
+    const frames = settled(analyzeSignal(sine(10000, 2), SAMPLE_RATE), 1000);
+
+    for (const { data } of frames) {
+      expect(data.highs).toBeGreaterThan(data.bass);
+      expect(data.highs).toBeGreaterThan(data.mids);
+    }
+  });
+
+  it("moves from bass to mids to highs during a sine sweep", () => {
+    const frames = analyzeSignal(sweep(40, 16000, 6), SAMPLE_RATE);
+
+    // Loudest band per frame, ignoring the short fade-in
+    const loudest = settled(frames, 200).map(({ data }) => {
+      const bands = [data.bass, data.mids, data.highs];
+      return bands.indexOf(Math.max(...bands));
+    });
+
+    expect(loudest[0]).toBe(0);
+    expect(loudest[loudest.length - 1]).toBe(2);
+    expect(new Set(loudest)).toEqual(new Set([0, 1, 2]));
+    // Never steps back to a lower band
+    for (let i = 1; i < loudest.length; i++) {
+      expect(loudest[i]).toBeGreaterThanOrEqual(loudest[i - 1]);
+    }
+
+    // The log-spaced spectrum peak rises with the sweep too
+    const peakBand = (spectrum: number[]) => spectrum.indexOf(Math.max(...spectrum));
+    const early = frames.find(({ t }) => t >= 1000)!;
+    const late = frames.find(({ t }) => t >= 5000)!;
+    expect(peakBand(late.data.spectrum)).toBeGreaterThan(peakBand(early.data.spectrum) + 10);
+  });
+
+  it("detects every impulse as an onset", () => {
+    const { samples, times } = impulseTrain(120, 8);
+    const frames = analyzeSignal(samples, SAMPLE_RATE);
+    const beatTimes = frames.filter(({ data }) => data.beat).map(({ t }) => t);
+
+    expect(beatTimes).toHaveLength(times.length);
+    // Each onset lands within a couple of frames after its impulse
+    beatTimes.forEach((beatTime, i) => {
+      expect(beatTime - times[i]).toBeGreaterThanOrEqual(0);
+      expect(beatTime - times[i]).toBeLessThan(40);
+    });
+    expect(frames.filter(({ data }) => data.beat).every(({ data }) => data.beatStrength > 0)).toBe(true);
+  });
+
+  it("estimates the tempo of an impulse train", () => {
+    for (const bpm of [90, 120, 150]) {
+      const frames = analyzeSignal(impulseTrain(bpm, 8).samples, SAMPLE_RATE);
+      const last = frames[frames.length - 1].data;
+
+      expect(last.bpm).toBeGreaterThan(bpm - 3);
+      expect(last.bpm).toBeLessThan(bpm + 3);
+      expect(last.beatPhase).toBeGreaterThanOrEqual(0);
+      expect(last.beatPhase).toBeLessThan(1);
+    }
+  });
+
+  it("forgets the tempo after the impulses stop", () => {
+    const { samples } = impulseTrain(120, 6);
+    const withTail = new Float32Array(samples.length + SAMPLE_RATE * 10);
+    withTail.set(samples);
+    const frames = analyzeSignal(withTail, SAMPLE_RATE);
+
+    expect(frames.find(({ t }) => t >= 5500)!.data.bpm).toBeGreaterThan(0);
+    expect(frames[frames.length - 1].data.bpm).toBe(0);
+  });
+
+  it("raises quiet input with automatic gain control", () => {
+    const quiet = sine(1000, 3, 0.003);
+    const withAgc = settled(analyzeSignal(quiet, SAMPLE_RATE), 2500);
+    const withoutAgc = settled(analyzeSignal(quiet, SAMPLE_RATE, { settings: { agcEnabled: false } }), 2500);
+
+    expect(withAgc[0].data.mids).toBeGreaterThan(withoutAgc[0].data.mids * 1.5);
+  });
+
+  it("keeps its state per instance", () => {
+    const frequencyData = new Uint8Array(defaultAnalysisSettings.fftSize / 2).fill(200);
+    const silentFrequencyData = new Uint8Array(defaultAnalysisSettings.fftSize / 2);
+    const timeDomainData = new Float32Array(defaultAnalysisSettings.fftSize);
+
+    const loud = createAudioAnalyzer(SAMPLE_RATE, defaultAnalysisSettings);
+    const quiet = createAudioAnalyzer(SAMPLE_RATE, defaultAnalysisSettings);
+    for (let t = 16; t <= 160; t += 16) {
+      loud.analyze(frequencyData, timeDomainData, t);
+    }
+
+    expect(quiet.analyze(silentFrequencyData, timeDomainData, 176).energy).toBe(0);
+    expect(loud.analyze(silentFrequencyData, timeDomainData, 176).energy).toBeGreaterThan(0);
+
+    // Smoothing starts over after a reset
+    loud.reset();
+    expect(loud.analyze(silentFrequencyData, timeDomainData, 192).energy).toBe(0);
+  });
+});
+
+describe("analysis settings", () => {
+  it("clamps out-of-range values", () => {
+    const settings = normalizeAnalysisSettings({ fftSize: 1000, bassCrossover: 5, midsCrossover: 1, agcTarget: 500 });
+
+    expect(settings.fftSize).toBe(1024);
+    expect(settings.bassCrossover).toBe(20);
+    expect(settings.midsCrossover).toBe(20);
+    expect(settings.agcTarget).toBe(100);
+    expect(normalizeAnalysisSettings(undefined)).toEqual(defaultAnalysisSettings);
+  });
+
+  it("rounds crossovers to FFT bins", () => {
+    const analyzer = createAudioAnalyzer(SAMPLE_RATE, defaultAnalysisSettings);
+    const binHz = SAMPLE_RATE / defaultAnalysisSettings.fftSize;
+
+    const { bass, mids } = analyzer.getCrossoverHz();
+    expect(Math.abs(bass - defaultAnalysisSettings.bassCrossover)).toBeLessThanOrEqual(binHz / 2);
+    expect(Math.abs(mids - defaultAnalysisSettings.midsCrossover)).toBeLessThanOrEqual(binHz / 2);
+
+    // A larger FFT gives finer bins
+    analyzer.updateSettings({ ...defaultAnalysisSettings, fftSize: 4096 });
+    expect(Math.abs(analyzer.getCrossoverHz().bass - 250)).toBeLessThanOrEqual(SAMPLE_RATE / 4096 / 2);
+  });
+
+  it("moves a tone between bands when the crossover moves past it", () => {
+    const tone = sine(1000, 2);
+    const asBass = settled(analyzeSignal(tone, SAMPLE_RATE, { settings: { bassCrossover: 1500 } }), 1000);
+    const asMids = settled(analyzeSignal(tone, SAMPLE_RATE, { settings: { bassCrossover: 250 } }), 1000);
+
+    expect(asBass[0].data.bass).toBeGreaterThan(asBass[0].data.mids);
+    expect(asMids[0].data.mids).toBeGreaterThan(asMids[0].data.bass);
+  });
+});
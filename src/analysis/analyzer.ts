@@ -0,0 +1,445 @@
+// PulseSynth Audio Analyzer
+// Pure analysis core: turns frequency/time-domain frames into band, beat and tempo data
+// All state lives in the instance, so it runs in the offscreen document, in Node and in tests alike
+
+// Analysis settings (crossovers in Hz, converted to bins using the real sample rate)
+export interface AnalysisSettings {
+  fftSize: number;
+  bassCrossover: number; // Bass/mids split in Hz
+  midsCrossover: number; // Mids/highs split in Hz
+  agcEnabled: boolean; // Automatic gain control on/off
+  agcTarget: number; // Target peak level in percent (10-100)
+}
+
+export const defaultAnalysisSettings: AnalysisSettings = {
+  fftSize: 512,
+  bassCrossover: 250,
+  midsCrossover: 4000,
+  agcEnabled: true,
+  agcTarget: 60,
+};
+
+const MIN_FFT_SIZE = 256;
+const MAX_FFT_SIZE = 4096;
+
+// Audio band data structure
+export interface AudioBands {
+  bass: number;
+  mids: number;
+  highs: number;
+  energy: number;
+  beat: boolean; // True on the frame an onset is detected
+  beatStrength: number; // 0-1, how far the onset exceeded the threshold
+  spectrum: number[]; // Log-spaced band magnitudes as bytes (0-255)
+  waveform: number[]; // Time-domain samples as bytes (0-255, 128 = silence)
+  bpm: number; // Estimated tempo, 0 while unknown
+  beatPhase: number; // 0-1 position within the current beat (0 = on the beat)
+}
+
+export interface AudioAnalyzer {
+  // Analyse one frame; now is a timestamp in ms (wall clock live, stream position offline)
+  analyze(frequencyData: Uint8Array, timeDomainData: Float32Array, now: number): AudioBands;
+  updateSettings(settings: AnalysisSettings): void;
+  // Actual crossover frequencies after rounding to FFT bins
+  getCrossoverHz(): { bass: number; mids: number };
+  reset(): void;
+}
+
+// EMA smoothing factor (0.3 = responsive but stable)
+const SMOOTHING_ALPHA = 0.3;
+
+// Frame interval assumed for the first frame (the offscreen document streams at ~60fps)
+const DEFAULT_FRAME_INTERVAL_MS = 16;
+
+// Log-spaced spectrum bands (sent as bytes 0-255 alongside the coarse bands)
+const SPECTRUM_BAND_COUNT = 32;
+const SPECTRUM_MIN_HZ = 40;
+const SPECTRUM_MAX_HZ = 16000;
+
+// Downsampled time-domain waveform (sent as bytes, 128 = zero crossing)
+const WAVEFORM_SAMPLE_COUNT = 128;
+
+// Automatic gain control (rolling peak follower)
+// Fast attack so loud passages are tamed quickly, slow release so quiet ones rise gently
+const AGC_ATTACK_MS = 50;
+const AGC_RELEASE_MS = 4000;
+const AGC_MIN_GAIN = 0.25;
+const AGC_MAX_GAIN = 8;
+// Below this raw level the input is treated as silence and never amplified
+const AGC_NOISE_FLOOR = 0.01;
+
+// Onset detection (spectral flux with adaptive threshold)
+// History covers ~0.7s of frames at the 16ms stream interval
+const FLUX_HISTORY_SIZE = 43;
+const FLUX_THRESHOLD_MULTIPLIER = 1.5; // Stddevs above the local mean
+const FLUX_MIN_THRESHOLD = 0.004; // Ignore tiny fluctuations near silence
+const BEAT_MIN_INTERVAL_MS = 120; // Refractory period (~500 BPM max)
+
+// Tempo estimation from the onset history (inter-onset interval histogram)
+const ONSET_HISTORY_SIZE = 32;
+const TEMPO_WINDOW_MS = 8000; // Only onsets this recent vote on the tempo
+const TEMPO_MIN_BPM = 70;
+const TEMPO_MAX_BPM = 180;
+const TEMPO_MIN_ONSETS = 4;
+const TEMPO_PAIR_SPAN = 4; // Each onset is paired with this many successors
+const PHASE_CORRECTION = 0.3; // How strongly on-grid onsets pull the beat grid
+
+// Merge incoming settings with defaults, clamping to supported ranges
+export function normalizeAnalysisSettings(incoming: Partial<AnalysisSettings> | undefined): AnalysisSettings {
+  const merged = { ...defaultAnalysisSettings, ...incoming };
+
+  // FFT size must be a power of two within the supported range
+  let fftSize = MIN_FFT_SIZE;
+  while (fftSize < merged.fftSize && fftSize < MAX_FFT_SIZE) {
+    fftSize *= 2;
+  }
+
+  const bassCrossover = Math.max(20, merged.bassCrossover);
+  const midsCrossover = Math.max(bassCrossover, merged.midsCrossover);
+  const agcEnabled = Boolean(merged.agcEnabled);
+  const agcTarget = Math.min(100, Math.max(10, merged.agcTarget));
+
+  return { fftSize, bassCrossover, midsCrossover, agcEnabled, agcTarget };
+}
+
+// Calculate average of a range in the frequency array
+function getAverageInRange(data: Uint8Array, start: number, end: number): number {
+  let sum = 0;
+  const count = end - start;
+  for (let i = start; i < end; i++) {
+    sum += data[i];
+  }
+  return count > 0 ? sum / count / 255 : 0; // Normalize to 0-1
+}
+
+// Apply EMA smoothing
+function smooth(current: number, previous: number): number {
+  return SMOOTHING_ALPHA * current + (1 - SMOOTHING_ALPHA) * previous;
+}
+
+// Fold a tempo into the supported range by doubling/halving
+function foldBpm(bpm: number): number {
+  while (bpm < TEMPO_MIN_BPM) bpm *= 2;
+  while (bpm > TEMPO_MAX_BPM) bpm /= 2;
+  return bpm;
+}
+
+export function createAudioAnalyzer(sampleRate: number, initialSettings: AnalysisSettings): AudioAnalyzer {
+  let settings = initialSettings;
+
+  // FFT bin ranges, recomputed whenever the FFT size or crossovers change
+  // Each bin = sampleRate / fftSize Hz wide (e.g. 48000 / 512 ≈ 94 Hz)
+  let bassEndBin = 2;
+  let midsEndBin = 24;
+  const spectrumBinEdges = new Uint16Array(SPECTRUM_BAND_COUNT + 1);
+
+  // Reusable typed arrays (per performance rules - no per-frame allocations)
+  let previousSpectrum = new Float32Array(settings.fftSize / 2);
+  const spectrumData = new Uint8Array(SPECTRUM_BAND_COUNT);
+  const waveformData = new Uint8Array(WAVEFORM_SAMPLE_COUNT);
+
+  // Smoothed audio band values (EMA)
+  let smoothedBass = 0;
+  let smoothedMids = 0;
+  let smoothedHighs = 0;
+  let smoothedEnergy = 0;
+
+  let agcPeak = 0;
+  let lastAgcTime: number | null = null;
+
+  const fluxHistory = new Float32Array(FLUX_HISTORY_SIZE);
+  let fluxHistoryIndex = 0;
+  let fluxHistoryFilled = 0;
+  let lastBeatTime: number | null = null;
+
+  const onsetTimes = new Float64Array(ONSET_HISTORY_SIZE);
+  const tempoHistogram = new Float32Array(TEMPO_MAX_BPM - TEMPO_MIN_BPM + 1);
+  let onsetHistoryIndex = 0;
+  let onsetHistoryFilled = 0;
+  let estimatedBpm = 0;
+  let beatGridTime = 0; // Timestamp of a beat on the estimated tempo grid
+
+  // Convert crossover frequencies to bin indices for the current FFT size
+  function computeBandEdges() {
+    const binCount = settings.fftSize / 2;
+    const binHz = sampleRate / settings.fftSize;
+
+    // Bass always gets at least one bin above DC, highs at least one bin
+    bassEndBin = Math.min(Math.max(2, Math.round(settings.bassCrossover / binHz)), binCount - 2);
+    midsEndBin = Math.min(Math.max(bassEndBin + 1, Math.round(settings.midsCrossover / binHz)), binCount - 1);
+
+    // Log-spaced spectrum edges; every band covers at least one bin
+    const maxHz = Math.min(SPECTRUM_MAX_HZ, sampleRate / 2);
+    let previousEdge = 1; // Skip the DC bin
+    for (let i = 0; i <= SPECTRUM_BAND_COUNT; i++) {
+      const hz = SPECTRUM_MIN_HZ * Math.pow(maxHz / SPECTRUM_MIN_HZ, i / SPECTRUM_BAND_COUNT);
+      const bin = Math.min(Math.max(Math.round(hz / binHz), i === 0 ? 1 : previousEdge + 1), binCount);
+      spectrumBinEdges[i] = bin;
+      previousEdge = bin;
+    }
+  }
+
+  // Update the peak follower and return the gain to apply this frame
+  function updateAgc(level: number, now: number): number {
+    const elapsed = lastAgcTime !== null ? now - lastAgcTime : DEFAULT_FRAME_INTERVAL_MS;
+    lastAgcTime = now;
+
+    if (!settings.agcEnabled) {
+      return 1;
+    }
+
+    // Hold the peak through silence so the next note isn't blasted at max gain
+    if (level < AGC_NOISE_FLOOR) {
+      return 1;
+    }
+
+    const time = level > agcPeak ? AGC_ATTACK_MS : AGC_RELEASE_MS;
+    const coeff = 1 - Math.exp(-elapsed / time);
+    agcPeak += (level - agcPeak) * coeff;
+
+    const target = settings.agcTarget / 100;
+    return Math.min(AGC_MAX_GAIN, Math.max(AGC_MIN_GAIN, target / Math.max(agcPeak, AGC_NOISE_FLOOR)));
+  }
+
+  // Fill the log-spaced spectrum bands from the frequency data
+  function computeSpectrum(data: Uint8Array, gain: number): number[] {
+    for (let i = 0; i < SPECTRUM_BAND_COUNT; i++) {
+      const start = Math.min(spectrumBinEdges[i], data.length - 1);
+      const end = Math.min(Math.max(spectrumBinEdges[i + 1], start + 1), data.length);
+      spectrumData[i] = Math.round(Math.min(1, getAverageInRange(data, start, end) * gain) * 255);
+    }
+    // Plain array: typed arrays don't survive extension message serialization
+    return Array.from(spectrumData);
+  }
+
+  // Downsample the time-domain buffer, keeping the largest excursion in each window
+  // so transients survive decimation
+  function computeWaveform(samples: Float32Array, gain: number): number[] {
+    const windowSize = samples.length / WAVEFORM_SAMPLE_COUNT;
+    for (let i = 0; i < WAVEFORM_SAMPLE_COUNT; i++) {
+      const start = Math.floor(i * windowSize);
+      const end = Math.max(Math.floor((i + 1) * windowSize), start + 1);
+      let peak = 0;
+      for (let j = start; j < end; j++) {
+        if (Math.abs(samples[j]) > Math.abs(peak)) {
+          peak = samples[j];
+        }
+      }
+      const scaled = Math.max(-1, Math.min(1, peak * gain));
+      waveformData[i] = Math.round((scaled + 1) * 127.5);
+    }
+    return Array.from(waveformData);
+  }
+
+  // Spectral flux: sum of positive magnitude changes since the previous frame
+  function computeSpectralFlux(data: Uint8Array): number {
+    let flux = 0;
+    for (let i = 0; i < data.length; i++) {
+      const magnitude = data[i] / 255;
+      const diff = magnitude - previousSpectrum[i];
+      if (diff > 0) {
+        flux += diff;
+      }
+      previousSpectrum[i] = magnitude;
+    }
+    return flux / data.length;
+  }
+
+  // Compare flux against the mean + stddev of recent history
+  function detectOnset(flux: number, now: number): { beat: boolean; beatStrength: number } {
+    let beat = false;
+    let beatStrength = 0;
+
+    if (fluxHistoryFilled > 0) {
+      let mean = 0;
+      for (let i = 0; i < fluxHistoryFilled; i++) {
+        mean += fluxHistory[i];
+      }
+      mean /= fluxHistoryFilled;
+
+      let variance = 0;
+      for (let i = 0; i < fluxHistoryFilled; i++) {
+        const d = fluxHistory[i] - mean;
+        variance += d * d;
+      }
+      const stddev = Math.sqrt(variance / fluxHistoryFilled);
+
+      const threshold = Math.max(mean + FLUX_THRESHOLD_MULTIPLIER * stddev, FLUX_MIN_THRESHOLD);
+
+      if (flux > threshold && (lastBeatTime === null || now - lastBeatTime >= BEAT_MIN_INTERVAL_MS)) {
+        beat = true;
+        beatStrength = Math.min(1, (flux - threshold) / threshold);
+        lastBeatTime = now;
+      }
+    }
+
+    // Push into ring buffer
+    fluxHistory[fluxHistoryIndex] = flux;
+    fluxHistoryIndex = (fluxHistoryIndex + 1) % FLUX_HISTORY_SIZE;
+    fluxHistoryFilled = Math.min(fluxHistoryFilled + 1, FLUX_HISTORY_SIZE);
+
+    return { beat, beatStrength };
+  }
+
+  // Position within the current beat (0-1) at the given time
+  function getBeatPhase(time: number): number {
+    if (estimatedBpm === 0) return 0;
+    const period = 60000 / estimatedBpm;
+    const phase = ((time - beatGridTime) / period) % 1;
+    return phase < 0 ? phase + 1 : phase;
+  }
+
+  // Record an onset and re-estimate tempo and beat grid
+  function updateTempo(time: number) {
+    onsetTimes[onsetHistoryIndex] = time;
+    onsetHistoryIndex = (onsetHistoryIndex + 1) % ONSET_HISTORY_SIZE;
+    onsetHistoryFilled = Math.min(onsetHistoryFilled + 1, ONSET_HISTORY_SIZE);
+
+    // Vote: every recent pair of onsets adds weight to its (folded) tempo
+    tempoHistogram.fill(0);
+    let recentOnsets = 0;
+    for (let i = 0; i < onsetHistoryFilled; i++) {
+      const a = onsetTimes[(onsetHistoryIndex - 1 - i + ONSET_HISTORY_SIZE) % ONSET_HISTORY_SIZE];
+      if (time - a > TEMPO_WINDOW_MS) break;
+      recentOnsets++;
+
+      for (let j = 1; j <= TEMPO_PAIR_SPAN && i + j < onsetHistoryFilled; j++) {
+        const b = onsetTimes[(onsetHistoryIndex - 1 - i - j + ONSET_HISTORY_SIZE) % ONSET_HISTORY_SIZE];
+        if (time - b > TEMPO_WINDOW_MS) break;
+
+        const bin = Math.round(foldBpm(60000 / (a - b))) - TEMPO_MIN_BPM;
+        // Closer pairs are more reliable than pairs spanning several beats
+        const weight = 1 / j;
+        tempoHistogram[bin] += weight;
+        if (bin > 0) tempoHistogram[bin - 1] += weight * 0.5;
+        if (bin < tempoHistogram.length - 1) tempoHistogram[bin + 1] += weight * 0.5;
+      }
+    }
+
+    if (recentOnsets < TEMPO_MIN_ONSETS) return;
+
+    let bestBin = 0;
+    for (let i = 1; i < tempoHistogram.length; i++) {
+      if (tempoHistogram[i] > tempoHistogram[bestBin]) bestBin = i;
+    }
+    const candidate = bestBin + TEMPO_MIN_BPM;
+
+    // Snap to large changes (new song), glide through small ones
+    if (estimatedBpm === 0 || Math.abs(candidate - estimatedBpm) > 8) {
+      estimatedBpm = candidate;
+      beatGridTime = time;
+      return;
+    }
+    estimatedBpm += (candidate - estimatedBpm) * 0.2;
+
+    // Pull the beat grid towards onsets that land near a predicted beat
+    const period = 60000 / estimatedBpm;
+    const phase = getBeatPhase(time);
+    const error = phase > 0.5 ? phase - 1 : phase;
+    if (Math.abs(error) < 0.2) {
+      beatGridTime += error * period * PHASE_CORRECTION;
+    }
+  }
+
+  // Reset tempo tracking state
+  function resetTempo() {
+    onsetTimes.fill(0);
+    onsetHistoryIndex = 0;
+    onsetHistoryFilled = 0;
+    estimatedBpm = 0;
+    beatGridTime = 0;
+  }
+
+  // Reset onset detection state
+  function resetOnsetDetection() {
+    previousSpectrum.fill(0);
+    fluxHistory.fill(0);
+    fluxHistoryIndex = 0;
+    fluxHistoryFilled = 0;
+    lastBeatTime = null;
+    resetTempo();
+  }
+
+  computeBandEdges();
+
+  return {
+    analyze(data: Uint8Array, timeDomainData: Float32Array, now: number): AudioBands {
+      const binCount = data.length;
+
+      // Calculate raw band values
+      const rawBass = getAverageInRange(data, 0, bassEndBin);
+      const rawMids = getAverageInRange(data, bassEndBin, midsEndBin);
+      const rawHighs = getAverageInRange(data, midsEndBin, binCount);
+
+      // Calculate overall energy (RMS-like)
+      let totalEnergy = 0;
+      for (let i = 0; i < binCount; i++) {
+        totalEnergy += data[i];
+      }
+      const rawEnergy = totalEnergy / binCount / 255;
+
+      // Normalize loudness: follow the loudest band and scale towards the target level
+      const gain = updateAgc(Math.max(rawBass, rawMids, rawHighs), now);
+      const spectrum = computeSpectrum(data, gain);
+
+      // Time-domain waveform for the oscilloscope
+      const waveform = computeWaveform(timeDomainData, gain);
+
+      // Onset detection runs on the raw (unsmoothed) spectrum
+      const flux = computeSpectralFlux(data);
+      const { beat, beatStrength } = detectOnset(flux, now);
+
+      // Tempo tracking: forget the tempo once the music has stopped producing onsets
+      if (beat) {
+        updateTempo(now);
+      } else if (estimatedBpm > 0 && lastBeatTime !== null && now - lastBeatTime > TEMPO_WINDOW_MS) {
+        resetTempo();
+      }
+
+      // Apply gain and smoothing
+      smoothedBass = smooth(Math.min(1, rawBass * gain), smoothedBass);
+      smoothedMids = smooth(Math.min(1, rawMids * gain), smoothedMids);
+      smoothedHighs = smooth(Math.min(1, rawHighs * gain), smoothedHighs);
+      smoothedEnergy = smooth(Math.min(1, rawEnergy * gain), smoothedEnergy);
+
+      return {
+        bass: smoothedBass,
+        mids: smoothedMids,
+        highs: smoothedHighs,
+        energy: smoothedEnergy,
+        beat,
+        beatStrength,
+        spectrum,
+        waveform,
+        bpm: Math.round(estimatedBpm * 10) / 10,
+        beatPhase: getBeatPhase(now),
+      };
+    },
+
+    // A new FFT size means new bins, so onset history starts over
+    updateSettings(next: AnalysisSettings) {
+      const fftChanged = next.fftSize !== settings.fftSize;
+      settings = next;
+      if (fftChanged) {
+        previousSpectrum = new Float32Array(settings.fftSize / 2);
+        resetOnsetDetection();
+      }
+      computeBandEdges();
+    },
+
+    getCrossoverHz() {
+      const binHz = sampleRate / settings.fftSize;
+      return { bass: bassEndBin * binHz, mids: midsEndBin * binHz };
+    },
+
+    reset() {
+      smoothedBass = 0;
+      smoothedMids = 0;
+      smoothedHighs = 0;
+      smoothedEnergy = 0;
+      agcPeak = 0;
+      lastAgcTime = null;
+      resetOnsetDetection();
+    },
+  };
+}
@@ -0,0 +1,44 @@
+// PulseSynth Offline Analysis
+// Runs decoded samples through the same analysis as the live capture, one frame per stream interval
+
+import type { RecordedFrame } from "../recording";
+import { createAudioAnalyzer, normalizeAnalysisSettings, type AnalysisSettings } from "./analyzer";
+import { createSpectrumAnalyser } from "./spectrum";
+
+// Matches the offscreen document's streaming interval (~60fps)
+export const DEFAULT_FRAME_INTERVAL_MS = 16;
+
+export interface AnalyzeSignalOptions {
+  settings?: Partial<AnalysisSettings>;
+  intervalMs?: number;
+}
+
+// Analyse a mono signal; frame times are ms from the start of the signal
+export function analyzeSignal(
+  samples: Float32Array,
+  sampleRate: number,
+  options: AnalyzeSignalOptions = {},
+): RecordedFrame[] {
+  const settings = normalizeAnalysisSettings(options.settings);
+  const intervalMs = options.intervalMs ?? DEFAULT_FRAME_INTERVAL_MS;
+
+  const analyzer = createAudioAnalyzer(sampleRate, settings);
+  const spectrum = createSpectrumAnalyser(settings.fftSize);
+  const frequencyData = new Uint8Array(spectrum.frequencyBinCount);
+  const timeDomainData = new Float32Array(settings.fftSize);
+
+  const frames: RecordedFrame[] = [];
+  for (let t = intervalMs; ; t += intervalMs) {
+    const end = Math.round((t / 1000) * sampleRate);
+    if (end > samples.length) break;
+
+    // The analyser sees the fftSize samples leading up to this frame (silence before the start)
+    const start = Math.max(0, end - settings.fftSize);
+    timeDomainData.fill(0);
+    timeDomainData.set(samples.subarray(start, end), settings.fftSize - (end - start));
+
+    spectrum.getByteFrequencyData(timeDomainData, frequencyData);
+    frames.push({ t, data: analyzer.analyze(frequencyData, timeDomainData, t) });
+  }
+  return frames;
+}
@@ -0,0 +1,106 @@
+// PulseSynth Software Analyser
+// Mirrors AnalyserNode.getByteFrequencyData for offline use (WAV files, tests) where Web Audio isn't available
+
+// AnalyserNode defaults (the offscreen document only changes the smoothing)
+const MIN_DECIBELS = -100;
+const MAX_DECIBELS = -30;
+export const DEFAULT_SMOOTHING_TIME_CONSTANT = 0.8;
+
+export interface SpectrumAnalyser {
+  readonly fftSize: number;
+  readonly frequencyBinCount: number;
+  // Fill out with byte magnitudes for the last fftSize samples, smoothed over previous calls
+  getByteFrequencyData(samples: Float32Array, out: Uint8Array): void;
+  reset(): void;
+}
+
+export function createSpectrumAnalyser(
+  fftSize: number,
+  smoothingTimeConstant = DEFAULT_SMOOTHING_TIME_CONSTANT,
+): SpectrumAnalyser {
+  if (fftSize < 2 || (fftSize & (fftSize - 1)) !== 0) {
+    throw new Error(`FFT size must be a power of two, got ${fftSize}`);
+  }
+
+  const binCount = fftSize / 2;
+
+  // Blackman window, as specified for AnalyserNode
+  const windowCoefficients = new Float32Array(fftSize);
+  for (let i = 0; i < fftSize; i++) {
+    const x = (2 * Math.PI * i) / fftSize;
+    windowCoefficients[i] = 0.42 - 0.5 * Math.cos(x) + 0.08 * Math.cos(2 * x);
+  }
+
+  // Bit-reversal permutation and twiddle factors for the radix-2 FFT
+  const bits = Math.log2(fftSize);
+  const reversed = new Uint32Array(fftSize);
+  for (let i = 0; i < fftSize; i++) {
+    let r = 0;
+    for (let b = 0; b < bits; b++) {
+      r = (r << 1) | ((i >> b) & 1);
+    }
+    reversed[i] = r;
+  }
+  const cosTable = new Float64Array(binCount);
+  const sinTable = new Float64Array(binCount);
+  for (let i = 0; i < binCount; i++) {
+    cosTable[i] = Math.cos((2 * Math.PI * i) / fftSize);
+    sinTable[i] = -Math.sin((2 * Math.PI * i) / fftSize);
+  }
+
+  const real = new Float64Array(fftSize);
+  const imag = new Float64Array(fftSize);
+  const smoothed = new Float32Array(binCount);
+
+  // In-place iterative FFT over real/imag
+  function transform() {
+    for (let size = 2; size <= fftSize; size *= 2) {
+      const half = size / 2;
+      const step = fftSize / size;
+      for (let start = 0; start < fftSize; start += size) {
+        for (let k = 0; k < half; k++) {
+          const a = start + k;
+          const b = a + half;
+          const cos = cosTable[k * step];
+          const sin = sinTable[k * step];
+          const tr = real[b] * cos - imag[b] * sin;
+          const ti = real[b] * sin + imag[b] * cos;
+          real[b] = real[a] - tr;
+          imag[b] = imag[a] - ti;
+          real[a] += tr;
+          imag[a] += ti;
+        }
+      }
+    }
+  }
+
+  return {
+    fftSize,
+    frequencyBinCount: binCount,
+
+    getByteFrequencyData(samples: Float32Array, out: Uint8Array) {
+      // Use the most recent fftSize samples, zero-padding at the start if there are fewer
+      const offset = samples.length - fftSize;
+      for (let i = 0; i < fftSize; i++) {
+        const sample = offset + i >= 0 ? samples[offset + i] : 0;
+        real[reversed[i]] = sample * windowCoefficients[i];
+        imag[reversed[i]] = 0;
+      }
+      transform();
+
+      const range = MAX_DECIBELS - MIN_DECIBELS;
+      for (let k = 0; k < binCount && k < out.length; k++) {
+        const magnitude = Math.hypot(real[k], imag[k]) / fftSize;
+        smoothed[k] = smoothingTimeConstant * smoothed[k] + (1 - smoothingTimeConstant) * magnitude;
+
+        const db = 20 * Math.log10(smoothed[k]);
+        const scaled = Math.floor((255 / range) * (db - MIN_DECIBELS));
+        out[k] = Number.isFinite(scaled) ? Math.max(0, Math.min(255, scaled)) : 0;
+      }
+    },
+
+    reset() {
+      smoothed.fill(0);
+    },
+  };
+}
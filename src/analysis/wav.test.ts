@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { decodeWav } from "./wav";
+
+// Build a WAV file from per-channel samples (-1 to 1)
+function encodeWav(channels: number[][], sampleRate: number, format: 1 | 3, bitsPerSample: number): ArrayBuffer {
+  const frameCount = channels[0].length;
+  const bytesPerSample = bitsPerSample / 8;
+  const dataLength = frameCount * channels.length * bytesPerSample;
+  const buffer = new ArrayBuffer(44 + dataLength);
+  const view = new DataView(buffer);
+  const writeTag = (offset: number, tag: string) =>
+    [...tag].forEach((char, i) => view.setUint8(offset + i, char.charCodeAt(0)));
+
+  writeTag(0, "RIFF");
+  view.setUint32(4, 36 + dataLength, true);
+  writeTag(8, "WAVE");
+  writeTag(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, format, true);
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channels.length * bytesPerSample, true);
+  view.setUint16(32, channels.length * bytesPerSample, true);
+  view.setUint16(34, bitsPerSample, true);
+  writeTag(36, "data");
+  view.setUint32(40, dataLength, true);
+
+  let offset = 44;
+  for (let i = 0; i < frameCount; i++) {
+    for (const channel of channels) {
+      if (format === 3) {
+        view.setFloat32(offset, channel[i], true);
+      } else if (bitsPerSample === 16) {
+        view.setInt16(offset, Math.round(channel[i] * 32767), true);
+      } else {
+        view.setUint8(offset, Math.round(channel[i] * 127 + 128));
+      }
+      offset += bytesPerSample;
+    }
+  }
+  return buffer;
+}
+
+describe("WAV decoder", () => {
+  it("mixes 16-bit stereo down to mono", () => {
+    const { wav, error } = decodeWav(encodeWav([[0.5, -0.5, 0], [0.5, 0.5, -1]], 44100, 1, 16));
+
+    expect(error).toBeUndefined();
+    expect(wav!.sampleRate).toBe(44100);
+    expect(wav!.channels).toBe(2);
+    expect(Array.from(wav!.samples)).toEqual([expect.closeTo(0.5, 3), expect.closeTo(0, 3), expect.closeTo(-0.5, 3)]);
+  });
+
+  it("decodes 8-bit and float samples", () => {
+    const eightBit = decodeWav(encodeWav([[0, 1, -1]], 8000, 1, 8)).wav!;
+    expect(Array.from(eightBit.samples)).toEqual([0, expect.closeTo(1, 1), expect.closeTo(-1, 1)]);
+
+    const float = decodeWav(encodeWav([[0.25, -0.75]], 48000, 3, 32)).wav!;
+    expect(Array.from(float.samples)).toEqual([0.25, -0.75]);
+  });
+
+  it("rejects files it can't read", () => {
+    expect(decodeWav(new ArrayBuffer(8)).error).toBe("File is not a WAV file");
+
+    const unsupported = encodeWav([[0]], 8000, 1, 16);
+    new DataView(unsupported).setUint16(20, 2, true); // ADPCM
+    expect(decodeWav(unsupported).error).toMatch(/Unsupported WAV encoding/);
+  });
+
+  it("reports a file cut off inside its format chunk", () => {
+    const file = encodeWav([[0, 0.5]], 8000, 1, 16);
+    expect(decodeWav(file.slice(0, 30)).error).toMatch(/truncated/);
+
+    // A format chunk that claims to run past the end of the file
+    new DataView(file).setUint32(16, 1000, true);
+    expect(decodeWav(file).error).toMatch(/truncated/);
+  });
+});
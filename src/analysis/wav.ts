@@ -0,0 +1,105 @@
+// PulseSynth WAV Decoder
+// Decodes PCM and float WAV files to mono samples for offline analysis
+
+export interface DecodedWav {
+  sampleRate: number;
+  channels: number; // Channel count in the file (samples are always mixed down to mono)
+  samples: Float32Array; // Mono, -1 to 1
+}
+
+const FORMAT_PCM = 1;
+const FORMAT_FLOAT = 3;
+const FORMAT_EXTENSIBLE = 0xfffe;
+
+// Read one sample as -1 to 1
+function readSample(view: DataView, offset: number, format: number, bitsPerSample: number): number {
+  if (format === FORMAT_FLOAT) {
+    return bitsPerSample === 64 ? view.getFloat64(offset, true) : view.getFloat32(offset, true);
+  }
+  switch (bitsPerSample) {
+    case 8:
+      return (view.getUint8(offset) - 128) / 128; // 8-bit PCM is unsigned
+    case 16:
+      return view.getInt16(offset, true) / 32768;
+    case 24: {
+      const value = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16);
+      return value / 8388608;
+    }
+    default:
+      return view.getInt32(offset, true) / 2147483648;
+  }
+}
+
+// Decode a RIFF/WAVE file
+export function decodeWav(buffer: ArrayBuffer): { wav?: DecodedWav; error?: string } {
+  const view = new DataView(buffer);
+  const readTag = (offset: number) =>
+    String.fromCharCode(...new Uint8Array(buffer, offset, Math.min(4, buffer.byteLength - offset)));
+
+  if (buffer.byteLength < 12 || readTag(0) !== "RIFF" || readTag(8) !== "WAVE") {
+    return { error: "File is not a WAV file" };
+  }
+
+  let format = 0;
+  let channels = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let dataOffset = -1;
+  let dataLength = 0;
+
+  // Walk the chunks; only fmt and data matter (chunks are padded to even sizes)
+  let offset = 12;
+  while (offset + 8 <= buffer.byteLength) {
+    const id = readTag(offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === "fmt " && size >= 16) {
+      if (body + size > buffer.byteLength) {
+        return { error: "WAV file is truncated inside its format chunk" };
+      }
+      format = view.getUint16(body, true);
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+      // Extensible files carry the real format at the start of the sub-format GUID
+      if (format === FORMAT_EXTENSIBLE && size >= 26) {
+        format = view.getUint16(body + 24, true);
+      }
+    } else if (id === "data") {
+      dataOffset = body;
+      dataLength = Math.min(size, buffer.byteLength - body); // Tolerate truncated files
+      break;
+    }
+
+    offset = body + size + (size % 2);
+  }
+
+  if (channels === 0 || sampleRate === 0) {
+    return { error: "WAV file has no format chunk" };
+  }
+  const supported =
+    (format === FORMAT_PCM && [8, 16, 24, 32].includes(bitsPerSample)) ||
+    (format === FORMAT_FLOAT && [32, 64].includes(bitsPerSample));
+  if (!supported) {
+    return { error: `Unsupported WAV encoding (format ${format}, ${bitsPerSample}-bit)` };
+  }
+  if (dataOffset < 0) {
+    return { error: "WAV file has no data chunk" };
+  }
+
+  const bytesPerSample = bitsPerSample / 8;
+  const frameSize = bytesPerSample * channels;
+  const frameCount = Math.floor(dataLength / frameSize);
+  const samples = new Float32Array(frameCount);
+
+  for (let i = 0; i < frameCount; i++) {
+    let sum = 0;
+    for (let c = 0; c < channels; c++) {
+      sum += readSample(view, dataOffset + i * frameSize + c * bytesPerSample, format, bitsPerSample);
+    }
+    samples[i] = sum / channels;
+  }
+
+  return { wav: { sampleRate, channels, samples } };
+}
@@ -1,23 +1,59 @@
 // PulseSynth Background Service Worker
 
+import type { AudioBands } from "./analysis/analyzer";
+import { BUILT_IN_PRESETS, CUSTOM_PRESETS_KEY, type CustomPreset } from "./presets";
+import {
+  createMessageListener,
+  createOverlayMessage,
+  sendToContent,
+  sendToOffscreen,
+  type CaptureResult,
+  type CaptureSource,
+  type CaptureSourceType,
+  type Message,
+  type OverlayMessages,
+} from "./protocol";
+import { createReplayer, type Recording } from "./recording";
+import { loadSettings, saveSettings, watchSettings, type Settings } from "./settings";
+import { SITE_RULES_KEY, findSiteRule, type SiteRule } from "./siteRules";
+
 // Constants
 const OFFSCREEN_DOCUMENT_PATH = "offscreen.html";
+const OVERLAY_PORT_NAME = "pulsesynth-overlay";
+const MESSAGE_RATE_WINDOW_MS = 1000;
+const CAPTURE_STATE_KEY = "pulseSynthCaptureState";
+const INTENSITY_STEP = 10; // Percent per intensity shortcut press
+const REPLAY_KEEPALIVE_MS = 20000; // Below the service worker's 30 s idle timeout
 
 // State
 let isCapturing = false;
-let capturedTabId: number | null = null;
-const injectedTabs = new Set<number>();
+const activeSources = new Map<string, CaptureSource>();
+const pendingSources = new Set<string>(); // Starts in flight, to reject duplicates
+
+// Overlay streaming: content scripts hold a long-lived port, audio only goes to visible tabs
+const overlayPorts = new Map<number, chrome.runtime.Port>(); // tabId -> port
+const overlayUrls = new Map<number, string>(); // tabId -> page URL the port connected from
+const visibleTabs = new Map<number, number>(); // windowId -> active tabId
+const hiddenTabs = new Set<number>(); // Tabs hidden with the hide-overlay shortcut
+let lastAudioData: AudioBands | null = null; // Latest frame, replayed to tabs as they become visible
+
+// Per-site rules (hide the overlay or override its settings on matching hosts)
+let siteRules: SiteRule[] = [];
+
+// Measured rate of messages posted to overlays
+let messageCount = 0;
+let messageWindowStart = performance.now();
+let messageRate = 0;
 
 // Ensure content script is injected in a tab
 async function ensureContentScriptInjected(tabId: number): Promise<boolean> {
-  if (injectedTabs.has(tabId)) {
+  if (overlayPorts.has(tabId)) {
     return true;
   }
 
   try {
     // Try to ping the content script first
-    await chrome.tabs.sendMessage(tabId, { type: "PING" });
-    injectedTabs.add(tabId);
+    await sendToContent(tabId, "PING");
     return true;
   } catch {
     // Content script not loaded, inject it
@@ -26,7 +62,6 @@ async function ensureContentScriptInjected(tabId: number): Promise<boolean> {
         target: { tabId },
         files: ["content.js"],
       });
-      injectedTabs.add(tabId);
       return true;
     } catch {
       // Injection failed (e.g., chrome:// pages)
@@ -35,6 +70,249 @@ async function ensureContentScriptInjected(tabId: number): Promise<boolean> {
   }
 }
 
+// Ask a tab's overlay to open its port; pages only connect while something is streaming
+async function connectOverlay(tabId: number) {
+  if (overlayPorts.has(tabId) || !(await ensureContentScriptInjected(tabId))) return;
+
+  try {
+    await sendToContent(tabId, "CONNECT_OVERLAY");
+  } catch {
+    // Tab navigated away or closed
+  }
+}
+
+// Tabs opened before install have no media session bridge (it is declared for document_start), so add it on capture
+// Handlers the page registered before that can't be recovered
+async function injectMediaSessionBridge(tabId: number) {
+  try {
+    await chrome.scripting.executeScript({
+      target: { tabId },
+      files: ["mediaSessionBridge.js"],
+      world: "MAIN",
+    });
+  } catch {
+    // Injection failed (e.g., chrome:// pages); media controls fall back to the page's media elements
+  }
+}
+
+// Post a message to one overlay, counting it towards the message rate
+function postToOverlay(tabId: number, message: Message<OverlayMessages>) {
+  const port = overlayPorts.get(tabId);
+  if (!port) return;
+
+  try {
+    port.postMessage(message);
+    messageCount++;
+  } catch {
+    // Port closed between lookup and post
+    overlayPorts.delete(tabId);
+    overlayUrls.delete(tabId);
+  }
+
+  const now = performance.now();
+  if (now - messageWindowStart >= MESSAGE_RATE_WINDOW_MS) {
+    messageRate = (messageCount * 1000) / (now - messageWindowStart);
+    messageCount = 0;
+    messageWindowStart = now;
+  }
+}
+
+// Post a message to every connected overlay (stop)
+function postToAllOverlays(message: Message<OverlayMessages>) {
+  for (const tabId of overlayPorts.keys()) {
+    postToOverlay(tabId, message);
+  }
+}
+
+// Site rule for a connected overlay's page
+function getOverlaySiteRule(tabId: number): SiteRule | null {
+  return findSiteRule(overlayUrls.get(tabId), siteRules);
+}
+
+// Overlay hidden by a site rule or the hide-overlay shortcut
+function isOverlayDisabled(tabId: number): boolean {
+  return hiddenTabs.has(tabId) || (getOverlaySiteRule(tabId)?.disabled ?? false);
+}
+
+// Load site rules (kept in sync by the storage listener below)
+async function loadSiteRules() {
+  const result = await chrome.storage.local.get([SITE_RULES_KEY]);
+  siteRules = (result[SITE_RULES_KEY] as SiteRule[] | undefined) ?? [];
+}
+
+// Current message rate, decaying to 0 once nothing is being posted
+function getMessageRate(): number {
+  return performance.now() - messageWindowStart > MESSAGE_RATE_WINDOW_MS * 2 ? 0 : Math.round(messageRate);
+}
+
+// Audio frames are flowing to overlays: live capture, or a loaded replay (which takes over from capture)
+function isStreaming(): boolean {
+  return isCapturing || replayer.isLoaded;
+}
+
+// Stream a frame only to the visible tab of each window; hidden tabs catch up on activation
+function broadcastAudioData(data: AudioBands) {
+  lastAudioData = data;
+  const message = createOverlayMessage("AUDIO_DATA", { data });
+  for (const tabId of visibleTabs.values()) {
+    if (!isOverlayDisabled(tabId)) {
+      postToOverlay(tabId, message);
+    }
+  }
+}
+
+// Replay: recorded frames go through the same broadcast path as live ones
+// A replay that reaches its end (without looping) is unloaded so live frames flow again straight away
+const replayer = createReplayer({
+  onFrame: broadcastAudioData,
+  onEnd: () => stopReplay(),
+});
+
+// Nothing sends the worker messages during a replay, so ping an extension API to keep it alive
+let replayKeepAlive: ReturnType<typeof setInterval> | null = null;
+
+function stopReplayKeepAlive() {
+  if (replayKeepAlive !== null) {
+    clearInterval(replayKeepAlive);
+    replayKeepAlive = null;
+  }
+}
+
+function playReplay() {
+  replayer.play();
+  if (replayKeepAlive === null) {
+    replayKeepAlive = setInterval(() => chrome.runtime.getPlatformInfo(), REPLAY_KEEPALIVE_MS);
+  }
+
+  // Visible overlays connect (tabs opened before install get the content script first)
+  for (const visibleTabId of visibleTabs.values()) {
+    connectOverlay(visibleTabId);
+  }
+}
+
+function pauseReplay() {
+  replayer.pause();
+  stopReplayKeepAlive();
+}
+
+function loadReplay(recording: Recording, name: string) {
+  replayer.load(recording, name);
+  playReplay();
+  console.log("[PulseSynth] Replaying recording:", name, `${recording.frames.length} frames`);
+}
+
+// Leave replay mode; live capture (if any) takes over again
+function stopReplay() {
+  pauseReplay();
+  replayer.unload();
+  if (!isCapturing) {
+    lastAudioData = null;
+    postToAllOverlays(createOverlayMessage("STOP_VISUALIZER"));
+  }
+}
+
+// Start recording the analysed frames in the offscreen document
+async function startRecording(): Promise<{ success: boolean; error?: string }> {
+  await captureStateRestored;
+  if (!isCapturing) {
+    return { success: false, error: "Start capturing audio to record it" };
+  }
+  return sendToOffscreen("START_RECORDING");
+}
+
+// Finish recording; the popup turns the result into a download
+async function stopRecording(): Promise<{ recording: Recording | null }> {
+  if (!(await chrome.offscreen.hasDocument())) {
+    return { recording: null };
+  }
+  return sendToOffscreen("STOP_RECORDING");
+}
+
+async function getRecordingStatus() {
+  let isRecording = false;
+  if (await chrome.offscreen.hasDocument()) {
+    const status = await sendToOffscreen("GET_OFFSCREEN_STATUS");
+    isRecording = status?.isRecording ?? false;
+  }
+  return { isRecording, replay: replayer.getStatus() };
+}
+
+// Send the latest frame to a tab that just became visible so it doesn't wait for the next one
+async function catchUpTab(tabId: number) {
+  if (!isStreaming() || !lastAudioData || hiddenTabs.has(tabId)) return;
+
+  // Don't inject into sites where the overlay is disabled
+  try {
+    const tab = await chrome.tabs.get(tabId);
+    if (findSiteRule(tab.url, siteRules)?.disabled) return;
+  } catch {
+    return; // Tab closed
+  }
+
+  // A newly connected overlay is sent the latest frame when its port opens
+  if (overlayPorts.has(tabId)) {
+    postToOverlay(tabId, createOverlayMessage("AUDIO_DATA", { data: lastAudioData }));
+  } else {
+    await connectOverlay(tabId);
+  }
+}
+
+// Persist capture state so it survives service worker restarts
+async function persistCaptureState() {
+  await chrome.storage.session.set({
+    [CAPTURE_STATE_KEY]: { sources: Array.from(activeSources.values()), hiddenTabIds: Array.from(hiddenTabs) },
+  });
+}
+
+// Restore capture state after a service worker restart, reconciled against the offscreen document
+async function restoreCaptureState() {
+  try {
+    const result = await chrome.storage.session.get([CAPTURE_STATE_KEY]);
+    const stored = result[CAPTURE_STATE_KEY] as { sources: CaptureSource[]; hiddenTabIds?: number[] } | undefined;
+
+    for (const tabId of stored?.hiddenTabIds ?? []) {
+      hiddenTabs.add(tabId);
+    }
+
+    // The offscreen document is the source of truth for what is actually streaming
+    let streamingIds: string[] = [];
+    if (await chrome.offscreen.hasDocument()) {
+      const status = await sendToOffscreen("GET_OFFSCREEN_STATUS");
+      streamingIds = status?.sourceIds ?? [];
+    }
+
+    for (const source of stored?.sources ?? []) {
+      if (streamingIds.includes(source.id)) {
+        activeSources.set(source.id, source);
+      }
+    }
+
+    // Streams we have no record of can't be shown or stopped from the popup, so end them
+    for (const sourceId of streamingIds) {
+      if (!activeSources.has(sourceId)) {
+        console.log("[PulseSynth] Stopping orphaned source:", sourceId);
+        await sendToOffscreen("STOP_AUDIO_STREAM", { sourceId });
+      }
+    }
+
+    isCapturing = activeSources.size > 0;
+    await persistCaptureState();
+
+    if (isCapturing) {
+      console.log("[PulseSynth] Restored capture state:", Array.from(activeSources.keys()));
+    }
+  } catch (error) {
+    console.error("[PulseSynth] Failed to restore capture state:", error);
+  }
+}
+
+// Change the stored settings from a shortcut; every other context picks the change up from storage
+async function updateStoredSettings(update: (settings: Settings) => void) {
+  const settings = await loadSettings();
+  update(settings);
+  await saveSettings(settings);
+}
+
 // Create offscreen document if it doesn't exist
 async function setupOffscreenDocument() {
   if (await chrome.offscreen.hasDocument()) {
@@ -50,188 +328,452 @@ async function setupOffscreenDocument() {
   console.log("[PulseSynth] Offscreen document created.");
 }
 
-// Start capturing audio from a tab
-async function startCapture(tabId: number): Promise<{ success: boolean; error?: string }> {
-  // Check if already capturing
-  if (isCapturing) {
-    console.log("[PulseSynth] Already capturing, stopping first...");
-    await stopCapture();
+// Get a tabCapture stream ID for a tab (the tab must be focused)
+async function getTabStreamId(tabId: number): Promise<string> {
+  // Focus the tab and its window (required for tabCapture)
+  const tab = await chrome.tabs.get(tabId);
+  if (tab.windowId) {
+    await chrome.windows.update(tab.windowId, { focused: true });
   }
+  await chrome.tabs.update(tabId, { active: true });
+
+  // Small delay to ensure tab is focused
+  await new Promise((resolve) => setTimeout(resolve, 100));
+
+  // Get media stream ID for the tab
+  const streamId = await chrome.tabCapture.getMediaStreamId({
+    targetTabId: tabId,
+  });
+
+  console.log("[PulseSynth] Got stream ID:", streamId);
+  return streamId;
+}
+
+// Build the source ID used to key sources in the background and offscreen mix
+function getSourceId(sourceType: CaptureSourceType, tabId: number | null, deviceId?: string): string {
+  return sourceType === "tab" ? `tab:${tabId}` : `microphone:${deviceId || "default"}`;
+}
 
+// Human-readable label for the popup's source list
+async function getSourceLabel(sourceType: CaptureSourceType, tabId: number | null): Promise<string> {
+  if (sourceType === "microphone") {
+    return "Microphone / Line-in";
+  }
   try {
-    // Ensure offscreen document exists
-    await setupOffscreenDocument();
+    const tab = await chrome.tabs.get(tabId!);
+    return tab.title || `Tab ${tabId}`;
+  } catch {
+    return `Tab ${tabId}`;
+  }
+}
 
-    // Focus the tab and its window (required for tabCapture)
-    const tab = await chrome.tabs.get(tabId);
-    if (tab.windowId) {
-      await chrome.windows.update(tab.windowId, { focused: true });
-    }
-    await chrome.tabs.update(tabId, { active: true });
+// Start capturing audio from a tab or an audio input device and add it to the mix
+async function startCapture(
+  sourceType: CaptureSourceType,
+  tabId: number | null,
+  deviceId?: string,
+  weight = 1,
+): Promise<CaptureResult> {
+  await captureStateRestored;
+  const sourceId = getSourceId(sourceType, tabId, deviceId);
 
-    // Small delay to ensure tab is focused
-    await new Promise((resolve) => setTimeout(resolve, 100));
+  // Prevent duplicate captures of the same source
+  if (activeSources.has(sourceId) || pendingSources.has(sourceId)) {
+    console.log("[PulseSynth] Source already captured, ignoring duplicate start request:", sourceId);
+    return { success: true, sourceId };
+  }
 
-    // Get media stream ID for the tab
-    const streamId = await chrome.tabCapture.getMediaStreamId({
-      targetTabId: tabId,
-    });
+  pendingSources.add(sourceId);
+  try {
+    // Ensure offscreen document exists
+    await setupOffscreenDocument();
 
-    console.log("[PulseSynth] Got stream ID:", streamId);
+    // Microphone/line-in is opened directly by the offscreen document
+    const source =
+      sourceType === "microphone"
+        ? { type: "microphone" as const, deviceId }
+        : { type: "tab" as const, streamId: await getTabStreamId(tabId!) };
 
-    // Send stream ID to offscreen document
-    const response = await chrome.runtime.sendMessage({
-      type: "START_AUDIO_STREAM",
-      target: "offscreen",
-      streamId: streamId,
+    // Send source and analysis settings to offscreen document (it has no storage access)
+    const response = await sendToOffscreen("START_AUDIO_STREAM", {
+      sourceId,
+      source,
+      weight,
+      settings: await loadSettings(),
     });
 
     if (response?.success) {
+      activeSources.set(sourceId, {
+        id: sourceId,
+        type: sourceType,
+        tabId: sourceType === "tab" ? tabId : null,
+        deviceId,
+        label: await getSourceLabel(sourceType, tabId),
+        weight,
+      });
       isCapturing = true;
-      capturedTabId = tabId;
-      console.log("[PulseSynth] Audio capture started for tab:", tabId);
-      return { success: true };
+      await persistCaptureState();
+
+      if (sourceType === "tab") {
+        injectMediaSessionBridge(tabId!);
+      }
+
+      // Visible overlays connect (tabs opened before install get the content script first)
+      for (const visibleTabId of visibleTabs.values()) {
+        connectOverlay(visibleTabId);
+      }
+
+      console.log("[PulseSynth] Audio capture started:", sourceId, "sources:", activeSources.size);
+      return { success: true, sourceId };
     } else {
       return { success: false, error: response?.error || "Unknown error" };
     }
   } catch (error) {
     console.error("[PulseSynth] Failed to start capture:", error);
-    // Reset state on error
-    isCapturing = false;
-    capturedTabId = null;
     return { success: false, error: String(error) };
+  } finally {
+    pendingSources.delete(sourceId);
   }
 }
 
-// Stop capturing audio
-async function stopCapture(): Promise<{ success: boolean }> {
+// Stop one source, or all capture when no source is given
+async function stopCapture(sourceId?: string): Promise<{ success: boolean }> {
+  await captureStateRestored;
+
   if (!isCapturing) {
     console.log("[PulseSynth] Not capturing, nothing to stop.");
     return { success: true };
   }
 
+  if (sourceId && !activeSources.has(sourceId)) {
+    return { success: true };
+  }
+
   try {
     // Tell offscreen document to stop
-    await chrome.runtime.sendMessage({
-      type: "STOP_AUDIO_STREAM",
-      target: "offscreen",
-    });
+    await sendToOffscreen("STOP_AUDIO_STREAM", { sourceId });
 
-    isCapturing = false;
-    capturedTabId = null;
+    if (sourceId) {
+      activeSources.delete(sourceId);
+      console.log("[PulseSynth] Source stopped:", sourceId);
+    } else {
+      activeSources.clear();
+    }
+    isCapturing = activeSources.size > 0;
+    await persistCaptureState();
 
-    // Broadcast stop to all tabs to hide the glow
-    chrome.tabs.query({}, (tabs) => {
-      for (const tab of tabs) {
-        if (tab.id && tab.url && !tab.url.startsWith("chrome://")) {
-          chrome.tabs.sendMessage(tab.id, { type: "STOP_VISUALIZER" }).catch(() => {});
-        }
-      }
-    });
+    if (!isStreaming()) {
+      // Broadcast stop to all tabs to hide the glow
+      lastAudioData = null;
+      postToAllOverlays(createOverlayMessage("STOP_VISUALIZER"));
 
-    console.log("[PulseSynth] Audio capture stopped.");
+      console.log("[PulseSynth] Audio capture stopped.");
+    }
 
     return { success: true };
   } catch (error) {
     console.error("[PulseSynth] Failed to stop capture:", error);
     // Force reset state even on error
-    isCapturing = false;
-    capturedTabId = null;
+    if (sourceId) {
+      activeSources.delete(sourceId);
+    } else {
+      activeSources.clear();
+    }
+    isCapturing = activeSources.size > 0;
+    await persistCaptureState();
     return { success: false };
   }
 }
 
-// Message handler
-chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
-  // Ignore messages meant for offscreen
-  if (message.target === "offscreen") {
-    return false;
+// Change a source's mix weight
+function updateSourceWeight(sourceId: string, weight: number) {
+  const source = activeSources.get(sourceId);
+  if (!source) return;
+
+  source.weight = weight;
+  persistCaptureState();
+  sendToOffscreen("SET_SOURCE_WEIGHT", { sourceId, weight }).catch(() => {});
+}
+
+// Tab whose media session the popup shows and controls (the first captured tab)
+function getMediaSourceTabId(): number | null {
+  for (const source of activeSources.values()) {
+    if (source.type === "tab" && source.tabId !== null) {
+      return source.tabId;
+    }
   }
+  return null;
+}
 
-  switch (message.type) {
-    case "GET_STATUS":
-      sendResponse({ isActive: isCapturing, tabId: capturedTabId });
-      return false;
+// Forward a media session message to the captured tab's content script
+async function sendToMediaSourceTab<R>(send: (tabId: number) => Promise<R>): Promise<R | null> {
+  await captureStateRestored;
+  const tabId = getMediaSourceTabId();
+  if (tabId === null || !(await ensureContentScriptInjected(tabId))) {
+    return null;
+  }
 
-    case "UPDATE_SETTINGS":
-      // Broadcast settings to all tabs
-      chrome.tabs.query({}, (tabs) => {
-        for (const tab of tabs) {
-          if (tab.id && tab.url && !tab.url.startsWith("chrome://")) {
-            chrome.tabs
-              .sendMessage(tab.id, {
-                type: "UPDATE_SETTINGS",
-                settings: message.settings,
-              })
-              .catch(() => {});
-          }
-        }
-      });
-      return false;
+  try {
+    return await send(tabId);
+  } catch {
+    return null; // Tab navigated away or closed
+  }
+}
+
+// Shortcut: start capturing the tab, or stop if it is already a source
+async function toggleTabCapture(tabId: number) {
+  await captureStateRestored;
+  const sourceId = getSourceId("tab", tabId);
+  if (activeSources.has(sourceId)) {
+    await stopCapture(sourceId);
+  } else {
+    await startCapture("tab", tabId);
+  }
+}
+
+// Shortcut: switch to the next preset (built-ins first, then custom presets)
+async function cycleToNextPreset() {
+  const result = await chrome.storage.local.get([CUSTOM_PRESETS_KEY]);
+  const customPresets = (result[CUSTOM_PRESETS_KEY] as CustomPreset[] | undefined) ?? [];
+  const presetIds = [...Object.keys(BUILT_IN_PRESETS), ...customPresets.map((preset) => preset.id)];
+
+  await updateStoredSettings((settings) => {
+    // An unknown (deleted) preset starts over at the first one
+    const nextId = presetIds[(presetIds.indexOf(settings.preset) + 1) % presetIds.length];
+    settings.preset = nextId;
+
+    // Custom presets carry their own intensity and glow width, as when picked in the popup
+    const custom = customPresets.find((preset) => preset.id === nextId);
+    if (custom) {
+      settings.intensity = custom.intensity;
+      settings.glowWidth = custom.glowWidth;
+    }
+  });
+}
+
+// Shortcut: nudge intensity up or down
+async function stepIntensity(direction: 1 | -1) {
+  await updateStoredSettings((settings) => {
+    settings.intensity = Math.max(0, Math.min(100, settings.intensity + direction * INTENSITY_STEP));
+  });
+}
+
+// Shortcut: hide (or show again) the overlay on one tab only
+async function toggleOverlayHidden(tabId: number) {
+  await captureStateRestored;
+  if (hiddenTabs.delete(tabId)) {
+    catchUpTab(tabId);
+  } else {
+    hiddenTabs.add(tabId);
+    postToOverlay(tabId, createOverlayMessage("STOP_VISUALIZER"));
+  }
+  await persistCaptureState();
+}
+
+// Active tab of the focused window (START_CAPTURE without a tab)
+async function getActiveTabId(): Promise<number | undefined> {
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  return tab?.id;
+}
+
+// Message handler (messages targeted at offscreen are ignored)
+chrome.runtime.onMessage.addListener(
+  createMessageListener("background", {
+    // Wait for restored state so a restarted worker doesn't report "Inactive"
+    GET_STATUS: async () => {
+      await captureStateRestored;
+      return {
+        isActive: isCapturing,
+        sources: Array.from(activeSources.values()),
+        messageRate: getMessageRate(),
+      };
+    },
 
-    case "AUDIO_DATA":
-      // Broadcast audio data to ALL tabs for cross-tab visual persistence
-      if (isCapturing) {
-        chrome.tabs.query({}, async (tabs) => {
-          for (const tab of tabs) {
-            if (tab.id && tab.url && !tab.url.startsWith("chrome://")) {
-              // Ensure content script is injected
-              const injected = await ensureContentScriptInjected(tab.id);
-              if (injected) {
-                chrome.tabs
-                  .sendMessage(tab.id, {
-                    type: "AUDIO_DATA",
-                    data: message.data,
-                  })
-                  .catch(() => {});
-              }
-            }
-          }
-        });
+    AUDIO_DATA: (message) => {
+      // Live frames are held back while a recording is replayed
+      if (isCapturing && !replayer.isLoaded) {
+        broadcastAudioData(message.data);
       }
-      return false;
+    },
 
-    case "START_CAPTURE":
-      // Prevent multiple simultaneous start attempts
-      if (isCapturing) {
-        console.log("[PulseSynth] Already capturing, ignoring duplicate start request.");
-        sendResponse({ success: true, tabId: capturedTabId });
-        return false;
+    START_CAPTURE: async (message) => {
+      // Microphone / line-in doesn't need a tab
+      if (message.sourceType === "microphone") {
+        const result = await startCapture("microphone", null, message.deviceId, message.weight);
+        return { ...result, sources: Array.from(activeSources.values()) };
       }
 
       // Use provided tabId or get current active tab
-      if (message.tabId) {
-        startCapture(message.tabId).then((result) => {
-          sendResponse({ ...result, tabId: message.tabId });
-        });
-      } else {
-        // Get the current active tab
-        chrome.tabs.query({ active: true, currentWindow: true }, async (tabs) => {
-          const tab = tabs[0];
-          if (!tab?.id) {
-            sendResponse({ success: false, error: "No active tab found" });
-            return;
-          }
-          const result = await startCapture(tab.id);
-          sendResponse({ ...result, tabId: tab.id });
-        });
+      const tabId = message.tabId ?? (await getActiveTabId());
+      if (!tabId) {
+        return { success: false, error: "No active tab found" };
       }
-      return true; // Will respond asynchronously
+      const result = await startCapture("tab", tabId, undefined, message.weight);
+      return { ...result, sources: Array.from(activeSources.values()) };
+    },
 
-    case "STOP_CAPTURE":
-      stopCapture().then(sendResponse);
-      return true; // Will respond asynchronously
+    STOP_CAPTURE: async (message) => {
+      const result = await stopCapture(message.sourceId);
+      return { ...result, sources: Array.from(activeSources.values()) };
+    },
 
-    default:
-      return false;
+    SET_SOURCE_WEIGHT: (message) => updateSourceWeight(message.sourceId, message.weight),
+
+    START_RECORDING: startRecording,
+
+    STOP_RECORDING: stopRecording,
+
+    GET_RECORDING_STATUS: getRecordingStatus,
+
+    REPLAY_LOAD: (message) => {
+      loadReplay(message.recording, message.name);
+      return replayer.getStatus();
+    },
+
+    REPLAY_PLAY: () => {
+      playReplay();
+      return replayer.getStatus();
+    },
+
+    REPLAY_PAUSE: () => {
+      pauseReplay();
+      return replayer.getStatus();
+    },
+
+    REPLAY_SET_LOOP: (message) => {
+      replayer.setLoop(message.loop);
+      return replayer.getStatus();
+    },
+
+    REPLAY_STOP: () => {
+      stopReplay();
+      return null;
+    },
+
+    GET_MEDIA_SESSION: () => sendToMediaSourceTab((tabId) => sendToContent(tabId, "GET_MEDIA_SESSION")),
+
+    MEDIA_ACTION: (message) => {
+      sendToMediaSourceTab((tabId) => sendToContent(tabId, "MEDIA_ACTION", { action: message.action }));
+    },
+  }),
+);
+
+// Keyboard shortcuts (see "commands" in manifest.json)
+chrome.commands.onCommand.addListener(async (command, tab) => {
+  const tabId = tab?.id ?? (await chrome.tabs.query({ active: true, currentWindow: true }))[0]?.id;
+
+  switch (command) {
+    case "toggle-capture":
+      if (tabId !== undefined) await toggleTabCapture(tabId);
+      break;
+    case "next-preset":
+      await cycleToNextPreset();
+      break;
+    case "intensity-up":
+      await stepIntensity(1);
+      break;
+    case "intensity-down":
+      await stepIntensity(-1);
+      break;
+    case "hide-overlay":
+      if (tabId !== undefined) await toggleOverlayHidden(tabId);
+      break;
   }
 });
 
-// Handle tab close - stop capture if source tab is closed
-chrome.tabs.onRemoved.addListener((tabId) => {
-  if (tabId === capturedTabId) {
-    console.log("[PulseSynth] Source tab closed, stopping capture.");
-    stopCapture();
+// Handle tab close - stop that source if a captured tab is closed
+chrome.tabs.onRemoved.addListener(async (tabId) => {
+  await captureStateRestored;
+  if (hiddenTabs.delete(tabId)) {
+    persistCaptureState();
+  }
+
+  const sourceId = getSourceId("tab", tabId);
+  if (activeSources.has(sourceId)) {
+    console.log("[PulseSynth] Source tab closed, stopping its capture.");
+    stopCapture(sourceId);
+  }
+});
+
+chrome.tabs.onUpdated.addListener((tabId, changeInfo) => {
+  // Same-document navigations (single-page apps) keep the port, so follow the URL for site rules
+  if (changeInfo.url !== undefined && overlayPorts.has(tabId)) {
+    overlayUrls.set(tabId, changeInfo.url);
+    if (isOverlayDisabled(tabId)) {
+      postToOverlay(tabId, createOverlayMessage("STOP_VISUALIZER"));
+      return;
+    }
+  }
+
+  // A visible tab that loaded a new page, or moved on to an allowed site, connects again
+  const navigated = changeInfo.url !== undefined || changeInfo.status === "complete";
+  if (navigated && Array.from(visibleTabs.values()).includes(tabId)) {
+    catchUpTab(tabId);
+  }
+});
+
+// Overlay ports from content scripts
+chrome.runtime.onConnect.addListener((port) => {
+  const tabId = port.sender?.tab?.id;
+  if (port.name !== OVERLAY_PORT_NAME || tabId === undefined) return;
+
+  overlayPorts.set(tabId, port);
+  overlayUrls.set(tabId, port.sender?.url ?? port.sender?.tab?.url ?? "");
+  port.onDisconnect.addListener(() => {
+    // A reloaded page may have connected a new port already
+    if (overlayPorts.get(tabId) === port) {
+      overlayPorts.delete(tabId);
+      overlayUrls.delete(tabId);
+    }
+  });
+
+  // A visible tab that (re)connects gets the current frame immediately
+  if (isStreaming() && lastAudioData && Array.from(visibleTabs.values()).includes(tabId) && !isOverlayDisabled(tabId)) {
+    postToOverlay(tabId, createOverlayMessage("AUDIO_DATA", { data: lastAudioData }));
+  }
+});
+
+// Track the active tab of each window
+chrome.tabs.onActivated.addListener(({ tabId, windowId }) => {
+  visibleTabs.set(windowId, tabId);
+  catchUpTab(tabId);
+});
+
+chrome.windows.onRemoved.addListener((windowId) => {
+  visibleTabs.delete(windowId);
+});
+
+// Restore capture state when the service worker starts
+const captureStateRestored = restoreCaptureState();
+
+loadSiteRules();
+
+// Keep site rules current; content scripts apply them to their own overlay
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName !== "local" || !changes[SITE_RULES_KEY]) return;
+
+  siteRules = (changes[SITE_RULES_KEY].newValue as SiteRule[] | undefined) ?? [];
+
+  // A site that was just re-enabled gets the current frame without waiting
+  for (const tabId of visibleTabs.values()) {
+    catchUpTab(tabId);
+  }
+});
+
+// Forward analysis settings (FFT size, crossovers, AGC) to the offscreen document whenever they are saved
+// Overlays read their own settings from storage
+watchSettings((settings) => {
+  if (isCapturing) {
+    sendToOffscreen("UPDATE_ANALYSIS_SETTINGS", { settings }).catch(() => {});
+  }
+});
+
+// Seed visible tabs when the service worker starts
+chrome.tabs.query({ active: true }, (tabs) => {
+  for (const tab of tabs) {
+    if (tab.id !== undefined) {
+      visibleTabs.set(tab.windowId, tab.id);
+    }
   }
 });
 
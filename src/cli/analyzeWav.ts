@@ -0,0 +1,146 @@
+/// <reference types="node" />
+// PulseSynth WAV Analysis CLI
+// Decodes a WAV file and prints the band/beat timeline the extension would see for it
+// Usage: npm run analyze-wav -- <file.wav> [--fft 512] [--step 250] [--interval 16] [--recording out.json]
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { basename } from "node:path";
+import { analyzeSignal, DEFAULT_FRAME_INTERVAL_MS } from "../analysis/offline";
+import { decodeWav } from "../analysis/wav";
+import { exportRecordingFile, RECORDING_FILE_VERSION } from "../recording";
+
+const USAGE =
+  "Usage: analyze-wav <file.wav> [--fft <size>] [--step <ms>] [--interval <ms>] [--recording <out.json>]";
+
+interface CliOptions {
+  file: string;
+  fftSize?: number;
+  stepMs: number; // Timeline row spacing
+  intervalMs: number; // Analysis frame spacing
+  recordingPath?: string;
+}
+
+// Parse argv into options (error message on invalid input)
+function parseArgs(args: string[]): { value?: CliOptions; error?: string } {
+  let file: string | undefined;
+  let fftSize: number | undefined;
+  let stepMs = 250;
+  let intervalMs = DEFAULT_FRAME_INTERVAL_MS;
+  let recordingPath: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const next = () => args[++i];
+    const nextNumber = () => {
+      const value = Number(next());
+      return Number.isFinite(value) && value > 0 ? value : null;
+    };
+
+    if (arg === "--fft") {
+      const value = nextNumber();
+      if (value === null) return { error: "--fft needs a positive number" };
+      fftSize = value;
+    } else if (arg === "--step") {
+      const value = nextNumber();
+      if (value === null) return { error: "--step needs a positive number of ms" };
+      stepMs = value;
+    } else if (arg === "--interval") {
+      const value = nextNumber();
+      if (value === null) return { error: "--interval needs a positive number of ms" };
+      intervalMs = value;
+    } else if (arg === "--recording") {
+      recordingPath = next();
+      if (!recordingPath) return { error: "--recording needs an output path" };
+    } else if (arg.startsWith("--")) {
+      return { error: `Unknown option ${arg}` };
+    } else if (!file) {
+      file = arg;
+    } else {
+      return { error: `Unexpected argument ${arg}` };
+    }
+  }
+
+  if (!file) return { error: "No WAV file given" };
+  return { value: { file, fftSize, stepMs, intervalMs, recordingPath } };
+}
+
+const formatLevel = (value: number) => value.toFixed(2).padStart(7);
+const formatTime = (ms: number) => (ms / 1000).toFixed(2).padStart(8);
+
+function main(): number {
+  const { value: options, error } = parseArgs(process.argv.slice(2));
+  if (!options) {
+    console.error(error);
+    console.error(USAGE);
+    return 1;
+  }
+
+  let bytes: Buffer;
+  try {
+    bytes = readFileSync(options.file);
+  } catch (err) {
+    console.error(`Could not read ${options.file}: ${(err as Error).message}`);
+    return 1;
+  }
+
+  const { wav, error: decodeError } = decodeWav(
+    bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer,
+  );
+  if (!wav) {
+    console.error(`${options.file}: ${decodeError}`);
+    return 1;
+  }
+
+  const frames = analyzeSignal(wav.samples, wav.sampleRate, {
+    settings: options.fftSize ? { fftSize: options.fftSize } : undefined,
+    intervalMs: options.intervalMs,
+  });
+
+  const durationMs = (wav.samples.length / wav.sampleRate) * 1000;
+  console.log(
+    `${basename(options.file)}: ${wav.sampleRate} Hz, ${wav.channels} channel(s), ` +
+      `${(durationMs / 1000).toFixed(2)} s, ${frames.length} frames`,
+  );
+  const headings = ["bass", "mids", "highs", "energy"].map((heading) => heading.padStart(7)).join("");
+  console.log(`${"time".padStart(8)}${headings}      bpm  beat`);
+
+  // One row per step; a row is marked when any frame inside it was an onset
+  let beats = 0;
+  let rowEnd = options.stepMs;
+  let rowBeat = 0;
+  for (const { t, data } of frames) {
+    if (data.beat) {
+      beats++;
+      rowBeat = Math.max(rowBeat, data.beatStrength || 0.01);
+    }
+    if (t < rowEnd) continue;
+
+    const marker = rowBeat > 0 ? ` * ${rowBeat.toFixed(2)}` : "";
+    const bpm = data.bpm > 0 ? data.bpm.toFixed(1).padStart(7) : "      -";
+    console.log(
+      `${formatTime(t)}${[data.bass, data.mids, data.highs, data.energy].map(formatLevel).join("")}  ${bpm}${marker}`,
+    );
+    rowEnd += options.stepMs;
+    rowBeat = 0;
+  }
+
+  const lastFrame = frames[frames.length - 1];
+  const tempo = lastFrame && lastFrame.data.bpm > 0 ? `${lastFrame.data.bpm} BPM` : "unknown";
+  console.log(`${beats} onsets, final tempo ${tempo}`);
+
+  // Same format as the popup's recordings, so the analysis can be replayed through the overlays
+  if (options.recordingPath && lastFrame) {
+    const recording = {
+      version: RECORDING_FILE_VERSION,
+      recordedAt: new Date().toISOString(),
+      durationMs: lastFrame.t,
+      frames,
+    };
+    writeFileSync(options.recordingPath, exportRecordingFile(recording));
+    console.log(`Wrote recording to ${options.recordingPath}`);
+  }
+
+  return 0;
+}
+
+process.exitCode = main();
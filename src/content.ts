@@ -7,54 +7,96 @@ import {
   stopRenderLoop,
   updateAudioData,
   updateSettings,
+  setCustomPresets,
   destroyRenderer,
+  isVideoSamplingNeeded,
+  updateVideoColors,
 } from "./renderer";
+import { CUSTOM_PRESETS_KEY, type CustomPreset } from "./presets";
+import { MEDIA_ACTION_EVENT, type MediaSessionInfo, type MediaTransportAction } from "./mediaSession";
+import { createOverlayHost, type OverlayHost } from "./overlayHost";
+import { createMessageListener, createOverlayListener } from "./protocol";
+import { defaultSettings, loadSettings, watchSettings } from "./settings";
+import { createVideoSampler } from "./videoSampler";
+import { SITE_RULES_KEY, applySiteRule, findSiteRule, type SiteRule } from "./siteRules";
 
-// Audio band data structure
-interface AudioBands {
-  bass: number;
-  mids: number;
-  highs: number;
-  energy: number;
-}
-
-// Settings interface
-interface Settings {
-  intensity: number;
-  glowWidth: number;
-}
-
-// Current audio data
-let currentAudioData: AudioBands = {
-  bass: 0,
-  mids: 0,
-  highs: 0,
-  energy: 0,
-};
+// Overlay port
+const OVERLAY_PORT_NAME = "pulsesynth-overlay";
+// Retries after an unexpected disconnect (service worker restarted mid-stream); after that the background asks again
+const PORT_RECONNECT_DELAYS_MS = [1000, 2000, 4000];
 
 // Renderer state
 let isRendererActive = false;
-let logThrottle = 0;
-
-// Load settings from storage
-function loadSettings() {
-  chrome.storage.local.get(["pulseSynthSettings"], (result) => {
-    const settings = result.pulseSynthSettings as Settings | undefined;
-    if (settings) {
-      updateSettings(settings);
-    }
+let overlayHost: OverlayHost | null = null;
+
+// Video colours for the ambilight mode (idle unless that mode is drawn)
+const videoSampler = createVideoSampler({ isEnabled: isVideoSamplingNeeded, onColors: updateVideoColors });
+
+// Site rule for this page (null = no rule, use the global settings)
+let siteRule: SiteRule | null = null;
+let siteRules: SiteRule[] = [];
+let siteRuleUrl = ""; // Page URL the rule was matched against
+
+// Load settings (and the custom presets they may refer to) from storage
+function applyStoredSettings() {
+  chrome.storage.local.get([CUSTOM_PRESETS_KEY], (result) => {
+    setCustomPresets((result[CUSTOM_PRESETS_KEY] as CustomPreset[] | undefined) ?? []);
+    loadSettings()
+      .catch((error) => {
+        console.warn("[PulseSynth:Content] Failed to load settings, using defaults:", error);
+        return defaultSettings;
+      })
+      .then((settings) => updateSettings(applySiteRule(settings, siteRule)));
   });
 }
 
+// Find the rule for this page; the overlay is torn down if the site gets disabled
+function applySiteRules(rules: SiteRule[] | undefined) {
+  siteRules = rules ?? [];
+  siteRuleUrl = location.href;
+  siteRule = findSiteRule(siteRuleUrl, siteRules);
+  if (siteRule?.disabled) {
+    stopVisualizer();
+  } else if (isRendererActive) {
+    applyStoredSettings();
+  }
+}
+
+chrome.storage.local.get([SITE_RULES_KEY], (result) => {
+  applySiteRules(result[SITE_RULES_KEY] as SiteRule[] | undefined);
+});
+
+// Keep custom presets and site rules in sync while they are edited in the popup
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName !== "local") return;
+
+  if (changes[CUSTOM_PRESETS_KEY] && isRendererActive) {
+    setCustomPresets((changes[CUSTOM_PRESETS_KEY].newValue as CustomPreset[] | undefined) ?? []);
+  }
+  if (changes[SITE_RULES_KEY]) {
+    applySiteRules(changes[SITE_RULES_KEY].newValue as SiteRule[] | undefined);
+  }
+});
+
+// Settings saved anywhere (popup, shortcuts, another synced machine) apply to a running overlay
+watchSettings((settings) => {
+  if (isRendererActive && !siteRule?.disabled) {
+    updateSettings(applySiteRule(settings, siteRule));
+  }
+});
+
 // Initialize renderer when capture starts
 function startVisualizer() {
   if (isRendererActive) return;
 
-  const canvas = initRenderer();
-  if (canvas) {
-    document.body.appendChild(canvas);
+  const overlay = initRenderer();
+  if (overlay) {
+    // Hosted in a closed shadow root that re-attaches itself and follows fullscreen
+    overlayHost = createOverlayHost(overlay);
+    overlayHost.attach();
     startRenderLoop();
-    loadSettings(); // Apply saved settings
+    applyStoredSettings(); // Apply saved settings
+    videoSampler.start();
     isRendererActive = true;
   }
 }
@@ -63,33 +105,140 @@ function startVisualizer() {
 function stopVisualizer() {
   if (!isRendererActive) return;
 
+  videoSampler.stop();
   stopRenderLoop();
   destroyRenderer();
+  overlayHost?.detach();
+  overlayHost = null;
   isRendererActive = false;
 }
 
-// Message listener
-chrome.runtime.onMessage.addListener((message, _sender, _sendResponse) => {
-  if (message.type === "AUDIO_DATA" && message.data) {
+let overlayPort: chrome.runtime.Port | null = null;
+let reconnectAttempt = 0;
+
+// Messages from the background (via the overlay port)
+const handleOverlayMessage = createOverlayListener({
+  AUDIO_DATA: (message) => {
+    reconnectAttempt = 0;
+
+    // Single-page apps change the URL without reloading the content script
+    if (location.href !== siteRuleUrl) {
+      applySiteRules(siteRules);
+    }
+
+    // Overlay is disabled on this site
+    if (siteRule?.disabled) return;
+
     // Start visualizer on first audio data
     if (!isRendererActive) {
       startVisualizer();
     }
 
-    currentAudioData = message.data;
-    updateAudioData(currentAudioData);
+    updateAudioData(message.data);
+  },
 
-    // Throttled logging (every 60 frames = ~1 second)
-    logThrottle++;
-    if (logThrottle >= 60) {
-      logThrottle = 0;
-    }
-  } else if (message.type === "UPDATE_SETTINGS" && message.settings) {
-    updateSettings(message.settings);
-  } else if (message.type === "STOP_VISUALIZER") {
+  // Nothing more to show here: close the port so an idle page never wakes the service worker
+  STOP_VISUALIZER: () => {
     stopVisualizer();
+    overlayPort?.disconnect();
+    overlayPort = null;
+  },
+});
+
+// Long-lived port to the background; audio frames are streamed over it
+// Opened when the background asks (CONNECT_OVERLAY), so pages stay quiet while nothing is captured
+function connectPort() {
+  if (overlayPort) return;
+
+  // Extension was reloaded or removed: this content script is orphaned
+  if (!chrome.runtime?.id) {
+    stopVisualizer();
+    return;
+  }
+
+  const port = chrome.runtime.connect({ name: OVERLAY_PORT_NAME });
+  overlayPort = port;
+  port.onMessage.addListener(handleOverlayMessage);
+  port.onDisconnect.addListener(() => {
+    overlayPort = null;
+
+    // Service worker restarted or was suspended: retry a few times with backoff
+    const delay = PORT_RECONNECT_DELAYS_MS[reconnectAttempt++];
+    if (delay !== undefined) {
+      setTimeout(connectPort, delay);
+    }
+  });
+}
+
+// Media elements on the page that have started playing
+function isMediaPlaying(): boolean {
+  if (navigator.mediaSession?.playbackState === "playing") return true;
+  return Array.from(document.querySelectorAll<HTMLMediaElement>("video, audio")).some(
+    (media) => !media.paused && !media.ended,
+  );
+}
+
+// Largest artwork image (sizes look like "512x512"; images without sizes rank lowest)
+function pickArtworkUrl(artwork: readonly MediaImage[]): string {
+  let best = "";
+  let bestWidth = -1;
+  for (const image of artwork) {
+    const width = parseInt(image.sizes?.split("x")[0] ?? "") || 0;
+    if (width > bestWidth) {
+      best = image.src;
+      bestWidth = width;
+    }
+  }
+  return best;
+}
+
+// Now-playing info from the page's media session (readable from the isolated world)
+function getMediaSessionInfo(): MediaSessionInfo {
+  const metadata = navigator.mediaSession?.metadata;
+  return {
+    title: metadata?.title || document.title,
+    artist: metadata?.artist ?? "",
+    album: metadata?.album ?? "",
+    artworkUrl: metadata ? pickArtworkUrl(metadata.artwork) : "",
+    isPlaying: isMediaPlaying(),
+  };
+}
+
+// Drive the page's media session; falls back to the media elements when the page has no handler
+// Returns false when nothing could carry out the action (track skips have no media element fallback)
+function runMediaAction(action: MediaTransportAction): boolean {
+  const sessionAction: MediaSessionAction = action === "playpause" ? (isMediaPlaying() ? "pause" : "play") : action;
+
+  // The main-world bridge cancels the event when it called the page's own handler
+  const event = new CustomEvent(MEDIA_ACTION_EVENT, { detail: sessionAction, cancelable: true });
+  if (!window.dispatchEvent(event)) return true;
+
+  const mediaElements = Array.from(document.querySelectorAll<HTMLMediaElement>("video, audio"));
+  if (sessionAction === "pause") {
+    mediaElements.forEach((media) => media.pause());
+  } else if (sessionAction === "play") {
+    // Resume whatever was playing before, not every preview video on the page
+    // (the autoplay policy may refuse, which would otherwise surface as an error on the page)
+    mediaElements
+      .find((media) => media.currentTime > 0 && !media.ended)
+      ?.play()
+      .catch(() => {});
+    return true;
   }
   return false;
-});
+}
 
-// Loaded
+// One-off messages (PING checks the script is loaded, CONNECT_OVERLAY opens the port while streaming;
+// media session queries and transport controls)
+chrome.runtime.onMessage.addListener(
+  createMessageListener("content", {
+    PING: () => ({ ok: true }),
+    CONNECT_OVERLAY: () => {
+      reconnectAttempt = 0;
+      connectPort();
+      return { ok: true };
+    },
+    GET_MEDIA_SESSION: getMediaSessionInfo,
+    MEDIA_ACTION: (message) => ({ ok: runMediaAction(message.action) }),
+  }),
+);
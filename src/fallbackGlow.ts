@@ -0,0 +1,73 @@
+// PulseSynth Fallback Glow
+// CSS edge glow used when WebGL2 is unavailable; reads the same uniforms the shaders do
+
+import type { Uniforms } from "./webgl";
+
+// Silence threshold (matches finalizeColor in the shaders)
+const SILENCE_THRESHOLD = 0.02;
+
+export interface FallbackGlow {
+  readonly element: HTMLDivElement;
+  update(uniforms: Uniforms): void;
+  clear(): void;
+}
+
+// HSV (0-1) to 0-255 RGB
+function hsvToRgb(h: number, s: number, v: number): [number, number, number] {
+  const channel = (n: number) => {
+    const k = (n + h * 6) % 6;
+    return (v - v * s * Math.max(0, Math.min(k, 4 - k, 1))) * 255;
+  };
+  return [channel(5), channel(3), channel(1)];
+}
+
+// Palette colour at t, interpolated between the uploaded stops (0-1 RGB)
+function samplePalette(palette: Float32Array, size: number, t: number): [number, number, number] {
+  const position = Math.max(0, Math.min(1, t)) * (size - 1);
+  const i = Math.min(Math.floor(position), size - 2);
+  const f = position - i;
+  const at = (stop: number, c: number) => palette[stop * 3 + c];
+  return [0, 1, 2].map((c) => (at(i, c) + (at(i + 1, c) - at(i, c)) * f) * 255) as [number, number, number];
+}
+
+export function createFallbackGlow(): FallbackGlow {
+  const element = document.createElement("div");
+
+  return {
+    element,
+
+    // Simplified edge glow: same colour formula, brightness and reach as the shader, drawn with box-shadow
+    update(uniforms: Uniforms) {
+      const value = (name: string) => uniforms[name].value as number;
+      const bass = value("uBass");
+      const highs = value("uHighs");
+      const energy = value("uEnergy");
+      const beatEffect = value("uBeat") * value("uBeatResponse");
+      const intensity = value("uIntensity");
+
+      if (bass + value("uMids") + highs + energy < SILENCE_THRESHOLD) {
+        this.clear();
+        return;
+      }
+
+      const hue = (((0.75 - bass * 0.25 + highs * 0.15 + value("uTempoTime") * value("uHueSpeed")) % 1) + 1) % 1;
+      let rgb = hsvToRgb(hue, 0.7 + value("uMids") * 0.3, 0.8 + energy * 0.2);
+      const paletteSize = value("uPaletteSize");
+      if (paletteSize >= 2) {
+        const sampled = samplePalette(uniforms.uPalette.value as Float32Array, paletteSize, energy);
+        const mix = value("uPaletteMix");
+        rgb = sampled.map((c, i) => c + (rgb[i] - c) * mix) as [number, number, number];
+      }
+
+      const alpha = Math.min(0.9, (0.4 + energy * 0.4 + beatEffect * 0.35) * intensity);
+      const reach = Math.min(window.innerWidth, window.innerHeight) * 0.5;
+      const spread = reach * (0.1 + energy * 0.15) * value("uGlowWidth") * (1 + bass * value("uBassGain"));
+      const [r, g, b] = rgb.map(Math.round);
+      element.style.boxShadow = `inset 0 0 ${spread * 2}px ${spread * 0.25}px rgba(${r}, ${g}, ${b}, ${alpha})`;
+    },
+
+    clear() {
+      element.style.boxShadow = "none";
+    },
+  };
+}
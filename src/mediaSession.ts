@@ -0,0 +1,18 @@
+// PulseSynth Media Session
+// Now-playing info and transport actions shared by the content script, media bridge, background and popup
+
+// What the captured tab is playing
+export interface MediaSessionInfo {
+  title: string; // Media session title, or the page title without one
+  artist: string;
+  album: string;
+  artworkUrl: string; // Largest artwork image, "" when there is none
+  isPlaying: boolean;
+}
+
+// Transport buttons in the popup ("playpause" becomes "play" or "pause" in the tab)
+export type MediaTransportAction = "playpause" | "nexttrack" | "previoustrack";
+
+// Event the content script dispatches to the main-world bridge; detail is the MediaSessionAction.
+// The bridge cancels the event when the page registered a handler for it
+export const MEDIA_ACTION_EVENT = "pulsesynth-media-action";
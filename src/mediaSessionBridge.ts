@@ -0,0 +1,43 @@
+// PulseSynth Media Session Bridge
+// Runs in the page's main world at document_start so the page's media session action handlers
+// can be triggered from the isolated content script. Until a capture sends a media action it only
+// notes the handlers the page registers and passes them straight through
+
+import { MEDIA_ACTION_EVENT } from "./mediaSession";
+
+// Also injected when a tab opened before install is captured; only the first copy in a document installs itself
+const BRIDGE_KEY = Symbol.for("pulsesynth.mediaSessionBridge");
+
+if (!(BRIDGE_KEY in window)) {
+  Object.defineProperty(window, BRIDGE_KEY, { value: true });
+  installBridge();
+}
+
+function installBridge() {
+  const actionHandlers = new Map<MediaSessionAction, MediaSessionActionHandler>();
+
+  // Record handlers as the page registers them (there is no API to read them back)
+  if ("mediaSession" in navigator) {
+    const mediaSession = navigator.mediaSession;
+    const setActionHandler = mediaSession.setActionHandler.bind(mediaSession);
+
+    mediaSession.setActionHandler = (action: MediaSessionAction, handler: MediaSessionActionHandler | null) => {
+      if (handler) {
+        actionHandlers.set(action, handler);
+      } else {
+        actionHandlers.delete(action);
+      }
+      setActionHandler(action, handler);
+    };
+  }
+
+  window.addEventListener(MEDIA_ACTION_EVENT, (event) => {
+    const action = (event as CustomEvent<MediaSessionAction>).detail;
+    const handler = actionHandlers.get(action);
+    if (!handler) return;
+
+    // Tell the content script the page handled it, so it skips its media element fallback
+    event.preventDefault();
+    handler({ action });
+  });
+}
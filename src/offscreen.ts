@@ -1,154 +1,251 @@
 // PulseSynth Offscreen Document Script
 // Handles audio capture and analysis
 
+import {
+  createAudioAnalyzer,
+  defaultAnalysisSettings,
+  normalizeAnalysisSettings,
+  type AnalysisSettings,
+  type AudioAnalyzer,
+  type AudioBands,
+} from "./analysis/analyzer";
+import { createMessageListener, sendToBackground, type AudioSource } from "./protocol";
+import { createRecorder } from "./recording";
+
 let audioContext: AudioContext | null = null;
-let mediaStream: MediaStream | null = null;
 let analyserNode: AnalyserNode | null = null;
-let sourceNode: MediaStreamAudioSourceNode | null = null;
+let mixNode: GainNode | null = null; // All sources are summed here before analysis
+
+// A captured stream feeding the mix
+interface ActiveStream {
+  mediaStream: MediaStream;
+  sourceNode: MediaStreamAudioSourceNode;
+  gainNode: GainNode; // Per-source mix weight (analysis only, playback is unaffected)
+}
+
+// Active streams keyed by the background's source ID
+const activeStreams = new Map<string, ActiveStream>();
 
-// Reusable typed array (per performance rules - no per-frame allocations)
+// Reusable typed arrays (per performance rules - no per-frame allocations)
 let frequencyData: Uint8Array | null = null;
+let timeDomainData: Float32Array | null = null;
 
-// Smoothed audio band values (EMA)
-let smoothedBass = 0;
-let smoothedMids = 0;
-let smoothedHighs = 0;
-let smoothedEnergy = 0;
-
-// EMA smoothing factor (0.3 = responsive but stable)
-const SMOOTHING_ALPHA = 0.3;
-
-// FFT bin ranges for 256 FFT size @ 44.1kHz sample rate
-// Each bin = sampleRate / fftSize = 44100 / 256 ≈ 172 Hz per bin
-// Bass: 0-250 Hz → bins 0-1
-// Mids: 250-4000 Hz → bins 2-23
-// Highs: 4000-20000 Hz → bins 24-127
-const BASS_END_BIN = 2; // ~344 Hz
-const MIDS_END_BIN = 24; // ~4128 Hz
-
-// Audio band data structure
-interface AudioBands {
-  bass: number;
-  mids: number;
-  highs: number;
-  energy: number;
-}
+let analysisSettings: AnalysisSettings = { ...defaultAnalysisSettings };
+
+// Band, beat and tempo analysis; created with the audio context so it knows the sample rate
+let analyzer: AudioAnalyzer | null = null;
 
-// Calculate average of a range in the frequency array
-function getAverageInRange(data: Uint8Array, start: number, end: number): number {
-  let sum = 0;
-  const count = end - start;
-  for (let i = start; i < end; i++) {
-    sum += data[i];
+// Analyze audio and return band values
+function analyzeAudio(): AudioBands {
+  if (!analyserNode || !analyzer || !frequencyData || !timeDomainData) {
+    return {
+      bass: 0,
+      mids: 0,
+      highs: 0,
+      energy: 0,
+      beat: false,
+      beatStrength: 0,
+      spectrum: [],
+      waveform: [],
+      bpm: 0,
+      beatPhase: 0,
+    };
   }
-  return count > 0 ? sum / count / 255 : 0; // Normalize to 0-1
+
+  analyserNode.getByteFrequencyData(frequencyData as Uint8Array<ArrayBuffer>);
+  analyserNode.getFloatTimeDomainData(timeDomainData as Float32Array<ArrayBuffer>);
+  return analyzer.analyze(frequencyData, timeDomainData, performance.now());
 }
 
-// Apply EMA smoothing
-function smooth(current: number, previous: number): number {
-  return SMOOTHING_ALPHA * current + (1 - SMOOTHING_ALPHA) * previous;
+// Apply the current settings to the analyzer and log the resulting band edges
+function applyAnalyzerSettings() {
+  if (!audioContext || !analyzer) return;
+
+  analyzer.updateSettings(analysisSettings);
+
+  const crossovers = analyzer.getCrossoverHz();
+  console.log(
+    `[PulseSynth:Offscreen] Band edges @ ${audioContext.sampleRate} Hz / FFT ${analysisSettings.fftSize}:`,
+    `bass 0-${crossovers.bass.toFixed(0)} Hz,`,
+    `mids ${crossovers.bass.toFixed(0)}-${crossovers.mids.toFixed(0)} Hz`,
+  );
 }
 
-// Analyze audio and return band values
-function analyzeAudio(): AudioBands {
-  if (!analyserNode || !frequencyData) {
-    return { bass: 0, mids: 0, highs: 0, energy: 0 };
+// Create (or re-create) the analyser node with the current FFT size
+function buildAnalyser() {
+  if (!audioContext || !mixNode) return;
+
+  if (analyserNode) {
+    mixNode.disconnect(analyserNode);
   }
 
-  // Get frequency data
-  const data = frequencyData;
-  analyserNode.getByteFrequencyData(data as Uint8Array<ArrayBuffer>);
+  analyserNode = audioContext.createAnalyser();
+  analyserNode.fftSize = analysisSettings.fftSize;
+  analyserNode.smoothingTimeConstant = 0.8;
+
+  // Initialize reusable frequency data arrays
+  frequencyData = new Uint8Array(analyserNode.frequencyBinCount);
+  timeDomainData = new Float32Array(analyserNode.fftSize);
 
-  const binCount = data.length;
+  // Connect: mix -> analyser
+  mixNode.connect(analyserNode);
 
-  // Calculate raw band values
-  const rawBass = getAverageInRange(data, 0, BASS_END_BIN);
-  const rawMids = getAverageInRange(data, BASS_END_BIN, MIDS_END_BIN);
-  const rawHighs = getAverageInRange(data, MIDS_END_BIN, binCount);
+  applyAnalyzerSettings();
+
+  console.log("[PulseSynth:Offscreen] FFT size:", analyserNode.fftSize);
+  console.log("[PulseSynth:Offscreen] Frequency bin count:", analyserNode.frequencyBinCount);
+}
 
-  // Calculate overall energy (RMS-like)
-  let totalEnergy = 0;
-  for (let i = 0; i < binCount; i++) {
-    totalEnergy += data[i];
+// Apply new analysis settings, rebuilding the analyser only if the FFT size changed
+function updateAnalysisSettings(incoming: Partial<AnalysisSettings> | undefined) {
+  const next = normalizeAnalysisSettings(incoming);
+  const fftChanged = next.fftSize !== analysisSettings.fftSize;
+  analysisSettings = next;
+
+  if (!analyserNode) return;
+
+  if (fftChanged) {
+    buildAnalyser();
+  } else {
+    applyAnalyzerSettings();
   }
-  const rawEnergy = totalEnergy / binCount / 255;
-
-  // Apply smoothing
-  smoothedBass = smooth(rawBass, smoothedBass);
-  smoothedMids = smooth(rawMids, smoothedMids);
-  smoothedHighs = smooth(rawHighs, smoothedHighs);
-  smoothedEnergy = smooth(rawEnergy, smoothedEnergy);
-
-  return {
-    bass: smoothedBass,
-    mids: smoothedMids,
-    highs: smoothedHighs,
-    energy: smoothedEnergy,
-  };
 }
 
-// Start audio stream processing
-async function startAudioStream(streamId: string): Promise<{ success: boolean; error?: string }> {
-  try {
-    // Get the media stream using the stream ID
-    mediaStream = await navigator.mediaDevices.getUserMedia({
+// Request the media stream for a tab capture or an audio input device
+function getSourceStream(source: AudioSource): Promise<MediaStream> {
+  if (source.type === "microphone") {
+    // Disable voice processing: it ducks and gates music
+    return navigator.mediaDevices.getUserMedia({
       audio: {
-        mandatory: {
-          chromeMediaSource: "tab",
-          chromeMediaSourceId: streamId,
-        },
-      } as MediaTrackConstraints,
+        deviceId: source.deviceId ? { exact: source.deviceId } : undefined,
+        echoCancellation: false,
+        noiseSuppression: false,
+        autoGainControl: false,
+      },
       video: false,
     });
+  }
 
-    console.log("[PulseSynth:Offscreen] Got media stream:", mediaStream);
+  // Get the media stream using the tab capture stream ID
+  return navigator.mediaDevices.getUserMedia({
+    audio: {
+      mandatory: {
+        chromeMediaSource: "tab",
+        chromeMediaSourceId: source.streamId,
+      },
+    } as MediaTrackConstraints,
+    video: false,
+  });
+}
 
-    // Create audio context
-    audioContext = new AudioContext();
-    console.log("[PulseSynth:Offscreen] AudioContext state:", audioContext.state);
-    console.log("[PulseSynth:Offscreen] Sample rate:", audioContext.sampleRate);
+// Create the audio context, mix bus and analyser for the first source
+function setupAudioPipeline(settings?: Partial<AnalysisSettings>) {
+  if (audioContext) return;
 
-    // Create analyser node
-    analyserNode = audioContext.createAnalyser();
-    analyserNode.fftSize = 256; // Per rules: 256-512
-    analyserNode.smoothingTimeConstant = 0.8;
+  analysisSettings = normalizeAnalysisSettings(settings);
 
-    // Initialize reusable frequency data array
-    frequencyData = new Uint8Array(analyserNode.frequencyBinCount);
+  // Create audio context
+  audioContext = new AudioContext();
+  console.log("[PulseSynth:Offscreen] AudioContext state:", audioContext.state);
+  console.log("[PulseSynth:Offscreen] Sample rate:", audioContext.sampleRate);
 
-    // Create source from stream
-    sourceNode = audioContext.createMediaStreamSource(mediaStream);
+  analyzer = createAudioAnalyzer(audioContext.sampleRate, analysisSettings);
+  mixNode = audioContext.createGain();
+  buildAnalyser();
 
-    // Connect: source -> analyser
-    sourceNode.connect(analyserNode);
+  console.log("[PulseSynth:Offscreen] Audio pipeline connected.");
 
-    // IMPORTANT: Connect to destination so user can still hear audio
-    // Otherwise the tab audio will be muted
-    analyserNode.connect(audioContext.destination);
+  // Start the audio data streaming loop
+  startAudioDataStream();
+}
 
-    console.log("[PulseSynth:Offscreen] Audio pipeline connected.");
-    console.log("[PulseSynth:Offscreen] FFT size:", analyserNode.fftSize);
-    console.log("[PulseSynth:Offscreen] Frequency bin count:", analyserNode.frequencyBinCount);
+// Start audio stream processing for one source
+async function startAudioStream(
+  sourceId: string,
+  source: AudioSource,
+  weight: number,
+  settings?: Partial<AnalysisSettings>,
+): Promise<{ success: boolean; error?: string }> {
+  if (activeStreams.has(sourceId)) {
+    return { success: true };
+  }
+
+  try {
+    setupAudioPipeline(settings);
 
-    // Start the audio data streaming loop
-    startAudioDataStream();
+    const mediaStream = await getSourceStream(source);
+    console.log("[PulseSynth:Offscreen] Got media stream:", sourceId, mediaStream);
+
+    // The pipeline may have been torn down while waiting for the stream
+    if (!audioContext || !mixNode) {
+      mediaStream.getTracks().forEach((track) => track.stop());
+      return { success: false, error: "Capture stopped" };
+    }
+
+    // Connect: source -> gain (weight) -> mix
+    const sourceNode = audioContext.createMediaStreamSource(mediaStream);
+    const gainNode = audioContext.createGain();
+    gainNode.gain.value = Math.min(1, Math.max(0, weight));
+    sourceNode.connect(gainNode);
+    gainNode.connect(mixNode);
+
+    // IMPORTANT: Connect tab audio to destination so user can still hear it
+    // Otherwise the tab audio will be muted (a mic would feed back, so it isn't)
+    if (source.type === "tab") {
+      sourceNode.connect(audioContext.destination);
+    }
+
+    activeStreams.set(sourceId, { mediaStream, sourceNode, gainNode });
+    console.log("[PulseSynth:Offscreen] Source added:", sourceId, "sources:", activeStreams.size);
 
     return { success: true };
   } catch (error) {
     console.error("[PulseSynth:Offscreen] Failed to start audio stream:", error);
+    if (activeStreams.size === 0) {
+      stopAudioDataStream();
+      stopAudioStream();
+    }
     return { success: false, error: String(error) };
   }
 }
 
-// Stop audio stream
+// Remove one source from the mix, tearing down the pipeline after the last one
+function stopSource(sourceId: string) {
+  const stream = activeStreams.get(sourceId);
+  if (stream) {
+    stream.mediaStream.getTracks().forEach((track) => track.stop());
+    stream.sourceNode.disconnect();
+    stream.gainNode.disconnect();
+    activeStreams.delete(sourceId);
+    console.log("[PulseSynth:Offscreen] Source removed:", sourceId, "sources:", activeStreams.size);
+  }
+
+  if (activeStreams.size === 0) {
+    stopAudioDataStream();
+    stopAudioStream();
+  }
+}
+
+// Change a source's mix weight (0-1)
+function setSourceWeight(sourceId: string, weight: number) {
+  const stream = activeStreams.get(sourceId);
+  if (stream && audioContext) {
+    stream.gainNode.gain.setTargetAtTime(Math.min(1, Math.max(0, weight)), audioContext.currentTime, 0.05);
+  }
+}
+
+// Stop all sources and the audio pipeline
 function stopAudioStream() {
-  if (mediaStream) {
-    mediaStream.getTracks().forEach((track) => track.stop());
-    mediaStream = null;
+  for (const stream of activeStreams.values()) {
+    stream.mediaStream.getTracks().forEach((track) => track.stop());
+    stream.sourceNode.disconnect();
+    stream.gainNode.disconnect();
   }
-  if (sourceNode) {
-    sourceNode.disconnect();
-    sourceNode = null;
+  activeStreams.clear();
+
+  if (mixNode) {
+    mixNode.disconnect();
+    mixNode = null;
   }
   if (analyserNode) {
     analyserNode.disconnect();
@@ -159,16 +256,15 @@ function stopAudioStream() {
     audioContext = null;
   }
   frequencyData = null;
-
-  // Reset smoothed values
-  smoothedBass = 0;
-  smoothedMids = 0;
-  smoothedHighs = 0;
-  smoothedEnergy = 0;
+  timeDomainData = null;
+  analyzer = null;
 
   console.log("[PulseSynth:Offscreen] Audio stream stopped and cleaned up.");
 }
 
+// Records analysed frames on request (downloaded from the popup, replayed by the background)
+const recorder = createRecorder();
+
 // Audio data streaming using setInterval (requestAnimationFrame doesn't work in offscreen docs)
 let streamingInterval: number | null = null;
 const STREAM_INTERVAL_MS = 16; // ~60fps
@@ -185,19 +281,12 @@ function startAudioDataStream() {
     }
 
     const bands = analyzeAudio();
+    recorder.record(bands);
 
     // Send audio data to background
-    chrome.runtime
-      .sendMessage({
-        type: "AUDIO_DATA",
-        data: bands,
-      })
-      .then(() => {
-        // Sent successfully
-      })
-      .catch((err) => {
-        console.error("[PulseSynth:Offscreen] Failed to send AUDIO_DATA:", err);
-      });
+    sendToBackground("AUDIO_DATA", { data: bands }).catch((err) => {
+      console.error("[PulseSynth:Offscreen] Failed to send AUDIO_DATA:", err);
+    });
   }, STREAM_INTERVAL_MS);
 }
 
@@ -209,27 +298,47 @@ function stopAudioDataStream() {
   }
 }
 
-// Message listener
-chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
-  // Only handle messages targeted at offscreen
-  if (message.target !== "offscreen") {
-    return false;
-  }
-
-  switch (message.type) {
-    case "START_AUDIO_STREAM":
-      startAudioStream(message.streamId).then(sendResponse);
-      return true; // Will respond asynchronously
-
-    case "STOP_AUDIO_STREAM":
-      stopAudioDataStream();
-      stopAudioStream();
-      sendResponse({ success: true });
-      return false;
-
-    default:
-      return false;
-  }
-});
+// Message listener (only messages targeted at offscreen reach the handlers)
+chrome.runtime.onMessage.addListener(
+  createMessageListener("offscreen", {
+    START_AUDIO_STREAM: (message) =>
+      startAudioStream(message.sourceId, message.source, message.weight, message.settings),
+
+    // Queried by a restarted service worker to reconcile its capture state
+    GET_OFFSCREEN_STATUS: () => ({
+      isActive: activeStreams.size > 0,
+      sourceIds: Array.from(activeStreams.keys()),
+      isRecording: recorder.isRecording,
+    }),
+
+    START_RECORDING: () => {
+      recorder.start();
+      return { success: true };
+    },
+
+    STOP_RECORDING: () => ({ recording: recorder.stop() }),
+
+    SET_SOURCE_WEIGHT: (message) => {
+      setSourceWeight(message.sourceId, message.weight);
+      return { success: true };
+    },
+
+    UPDATE_ANALYSIS_SETTINGS: (message) => {
+      updateAnalysisSettings(message.settings);
+      return { success: true };
+    },
+
+    // Stop one source, or everything when no source is given
+    STOP_AUDIO_STREAM: (message) => {
+      if (message.sourceId) {
+        stopSource(message.sourceId);
+      } else {
+        stopAudioDataStream();
+        stopAudioStream();
+      }
+      return { success: true };
+    },
+  }),
+);
 
 console.log("[PulseSynth:Offscreen] Offscreen document loaded and ready.");
@@ -0,0 +1,67 @@
+// PulseSynth Overlay Host
+// Keeps the overlay in a closed shadow root, re-attaches it when the page removes it, and follows fullscreen
+
+// Custom tag so page CSS aimed at div/canvas can't reach the host
+const HOST_TAG = "pulsesynth-overlay";
+
+// Fullscreen elements that can't show children (the overlay stays on the body instead)
+const REPLACED_ELEMENTS = new Set(["VIDEO", "IFRAME", "CANVAS", "IMG", "EMBED", "OBJECT"]);
+
+export interface OverlayHost {
+  attach(): void;
+  detach(): void;
+}
+
+// Element the overlay should live in: the fullscreen element when it can hold children, else the body
+function getAttachTarget(): Element {
+  const fullscreen = document.fullscreenElement;
+  if (fullscreen && !REPLACED_ELEMENTS.has(fullscreen.tagName)) {
+    return fullscreen;
+  }
+  return document.body ?? document.documentElement;
+}
+
+export function createOverlayHost(overlay: HTMLElement): OverlayHost {
+  const host = document.createElement(HOST_TAG);
+  host.style.cssText = `
+    all: initial !important;
+    display: block !important;
+    position: fixed !important;
+    inset: 0 !important;
+    pointer-events: none !important;
+    z-index: 2147483647 !important;
+  `;
+
+  const shadow = host.attachShadow({ mode: "closed" });
+  shadow.appendChild(overlay);
+
+  // Move the host back whenever it was removed or ended up outside the right parent
+  function ensureAttached() {
+    const target = getAttachTarget();
+    if (host.parentNode !== target) {
+      target.appendChild(host);
+    }
+  }
+
+  // SPAs replace body children (or the body itself); this only compares parents, so busy pages stay cheap
+  const observer = new MutationObserver(() => {
+    if (!host.isConnected || host.parentNode !== getAttachTarget()) {
+      console.log("[PulseSynth:Overlay] Re-attaching overlay.");
+      ensureAttached();
+    }
+  });
+
+  return {
+    attach() {
+      ensureAttached();
+      observer.observe(document.documentElement, { childList: true, subtree: true });
+      document.addEventListener("fullscreenchange", ensureAttached);
+    },
+
+    detach() {
+      observer.disconnect();
+      document.removeEventListener("fullscreenchange", ensureAttached);
+      host.remove();
+    },
+  };
+}
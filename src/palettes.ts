@@ -0,0 +1,66 @@
+// PulseSynth Palettes
+// Colour palettes sampled by audio energy, as an alternative to the classic hue formula
+
+// Built-in palette names
+export type BuiltInPaletteName = "sunset" | "ocean" | "neon" | "forest" | "ember";
+
+// Palette setting: the classic hue formula, a built-in palette or the user's custom stops
+export type PaletteId = "classic" | BuiltInPaletteName | "custom";
+
+// Palette settings (persisted with the other settings)
+export interface PaletteSettings {
+  palette: PaletteId;
+  customPalette: string[]; // Hex colour stops ("#rrggbb")
+  paletteMix: number; // 0-100, how much of the classic hue rotation is mixed back in
+}
+
+export const MIN_PALETTE_STOPS = 2;
+export const MAX_PALETTE_STOPS = 5;
+
+// Stops run from quiet (first) to loud (last)
+export const BUILT_IN_PALETTES: Record<BuiltInPaletteName, { label: string; stops: string[] }> = {
+  sunset: { label: "Sunset", stops: ["#2b1055", "#d53369", "#ffb347"] },
+  ocean: { label: "Ocean", stops: ["#03045e", "#0077b6", "#00b4d8", "#90e0ef"] },
+  neon: { label: "Neon", stops: ["#ff00ff", "#00d4ff", "#39ff14"] },
+  forest: { label: "Forest", stops: ["#1b4332", "#40916c", "#b7e4c7"] },
+  ember: { label: "Ember", stops: ["#370617", "#9d0208", "#e85d04", "#ffba08"] },
+};
+
+export const DEFAULT_CUSTOM_PALETTE = ["#7f00ff", "#00d4ff", "#ffffff"];
+
+export const defaultPaletteSettings: PaletteSettings = {
+  palette: "classic",
+  customPalette: DEFAULT_CUSTOM_PALETTE,
+  paletteMix: 0,
+};
+
+export function isBuiltInPalette(id: string): id is BuiltInPaletteName {
+  return Object.prototype.hasOwnProperty.call(BUILT_IN_PALETTES, id);
+}
+
+export function isPaletteColor(value: unknown): value is string {
+  return typeof value === "string" && /^#[0-9a-f]{6}$/i.test(value);
+}
+
+// Colour stops for a palette setting, or null for the classic hue formula
+export function resolvePaletteStops(palette: string | undefined, customPalette: string[] | undefined): string[] | null {
+  if (palette && isBuiltInPalette(palette)) {
+    return BUILT_IN_PALETTES[palette].stops;
+  }
+  if (palette === "custom") {
+    const stops = (customPalette ?? []).filter(isPaletteColor).slice(0, MAX_PALETTE_STOPS);
+    return stops.length >= MIN_PALETTE_STOPS ? stops : null;
+  }
+  return null;
+}
+
+// "#rrggbb" to 0-1 RGB components
+export function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.slice(1), 16);
+  return [((value >> 16) & 0xff) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255];
+}
+
+// CSS gradient preview for a list of stops
+export function getPaletteGradient(stops: string[]): string {
+  return `linear-gradient(90deg, ${stops.join(", ")})`;
+}
@@ -0,0 +1,20 @@
+// PulseSynth Permission Page
+// Grants microphone access to the extension origin so the offscreen document can use getUserMedia
+
+const permissionStatus = document.getElementById("permissionStatus") as HTMLParagraphElement;
+
+async function requestMicrophone() {
+  try {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    // Only the permission grant is needed; release the device immediately
+    stream.getTracks().forEach((track) => track.stop());
+
+    permissionStatus.textContent = "Microphone access granted. You can close this tab and pick a device in the popup.";
+    console.log("[PulseSynth:Permission] Microphone access granted.");
+  } catch (error) {
+    permissionStatus.textContent = "Microphone access was denied. Allow it in the site settings to use a microphone.";
+    console.error("[PulseSynth:Permission] Microphone access denied:", error);
+  }
+}
+
+requestMicrophone();
@@ -0,0 +1,12 @@
+// PulseSynth Popup Files
+// Download helper shared by the preset editor and the recorder
+
+// Trigger a file download from the popup
+export function downloadFile(filename: string, contents: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type: "application/json" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,134 @@
+// PulseSynth Media Controls
+// Now-playing info and transport buttons for the captured tab, plus a palette seeded from its artwork
+
+import { MIN_PALETTE_STOPS } from "../palettes";
+import type { MediaSessionInfo, MediaTransportAction } from "../mediaSession";
+import { sendToBackground } from "../protocol";
+
+const nowPlaying = document.getElementById("nowPlaying") as HTMLDivElement;
+const nowPlayingArtwork = document.getElementById("nowPlayingArtwork") as HTMLImageElement;
+const nowPlayingTitle = document.getElementById("nowPlayingTitle") as HTMLDivElement;
+const nowPlayingArtist = document.getElementById("nowPlayingArtist") as HTMLDivElement;
+const mediaPrevBtn = document.getElementById("mediaPrevBtn") as HTMLButtonElement;
+const mediaPlayPauseBtn = document.getElementById("mediaPlayPauseBtn") as HTMLButtonElement;
+const mediaNextBtn = document.getElementById("mediaNextBtn") as HTMLButtonElement;
+const artworkPaletteBtn = document.getElementById("artworkPaletteBtn") as HTMLButtonElement;
+const nowPlayingMessage = document.getElementById("nowPlayingMessage") as HTMLParagraphElement;
+
+const MEDIA_POLL_INTERVAL_MS = 2000;
+
+// Artwork is scaled down to this many pixels per side before counting colours
+const ARTWORK_SAMPLE_SIZE = 32;
+const ARTWORK_PALETTE_STOPS = 3;
+// Colours closer than this (RGB distance, 0-441) count as the same dominant colour
+const MIN_COLOR_DISTANCE = 64;
+
+// Called with the extracted stops when the user seeds the palette from the artwork
+type ArtworkPaletteHandler = (stops: string[]) => Promise<void>;
+
+let info: MediaSessionInfo | null = null;
+
+function render() {
+  nowPlaying.hidden = info === null;
+  if (!info) return;
+
+  nowPlayingTitle.textContent = info.title || "Unknown title";
+  nowPlayingTitle.title = info.title;
+  nowPlayingArtist.textContent = [info.artist, info.album].filter(Boolean).join(" — ");
+  mediaPlayPauseBtn.textContent = info.isPlaying ? "⏸" : "▶";
+
+  if (info.artworkUrl && nowPlayingArtwork.src !== info.artworkUrl) {
+    nowPlayingArtwork.src = info.artworkUrl;
+  }
+  nowPlayingArtwork.hidden = !info.artworkUrl;
+  artworkPaletteBtn.hidden = !info.artworkUrl;
+}
+
+// Ask the background for the captured tab's media session (null when nothing is captured)
+function refresh() {
+  sendToBackground("GET_MEDIA_SESSION").then((response) => {
+    info = response ?? null;
+    render();
+  });
+}
+
+function sendAction(action: MediaTransportAction) {
+  sendToBackground("MEDIA_ACTION", { action });
+  // Give the page a moment to update its playback state
+  setTimeout(refresh, 300);
+}
+
+function toHex(value: number): string {
+  return Math.round(value).toString(16).padStart(2, "0");
+}
+
+// Dominant colours of an image, darkest first (palettes run from quiet to loud)
+// The popup has host permissions, so fetching avoids a tainted canvas for cross-origin artwork
+async function extractArtworkPalette(url: string): Promise<string[]> {
+  const response = await fetch(url);
+  const bitmap = await createImageBitmap(await response.blob());
+  const canvas = new OffscreenCanvas(ARTWORK_SAMPLE_SIZE, ARTWORK_SAMPLE_SIZE);
+  const context = canvas.getContext("2d")!;
+  context.drawImage(bitmap, 0, 0, ARTWORK_SAMPLE_SIZE, ARTWORK_SAMPLE_SIZE);
+  bitmap.close();
+  const { data } = context.getImageData(0, 0, ARTWORK_SAMPLE_SIZE, ARTWORK_SAMPLE_SIZE);
+
+  // Bucket pixels at 4 bits per channel; near-black and grey pixels make dull glows, so skip them
+  const buckets = new Map<number, { count: number; r: number; g: number; b: number }>();
+  for (let i = 0; i < data.length; i += 4) {
+    const [r, g, b] = [data[i], data[i + 1], data[i + 2]];
+    const max = Math.max(r, g, b);
+    if (max < 40 || max - Math.min(r, g, b) < 24) continue;
+
+    const key = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+    const bucket = buckets.get(key) ?? { count: 0, r: 0, g: 0, b: 0 };
+    bucket.count++;
+    bucket.r += r;
+    bucket.g += g;
+    bucket.b += b;
+    buckets.set(key, bucket);
+  }
+
+  // Most common buckets first, skipping colours too close to one already picked
+  const colors: [number, number, number][] = [];
+  for (const bucket of Array.from(buckets.values()).sort((a, b) => b.count - a.count)) {
+    const color: [number, number, number] = [bucket.r / bucket.count, bucket.g / bucket.count, bucket.b / bucket.count];
+    const isDistinct = colors.every(
+      (picked) => Math.hypot(picked[0] - color[0], picked[1] - color[1], picked[2] - color[2]) >= MIN_COLOR_DISTANCE,
+    );
+    if (isDistinct) {
+      colors.push(color);
+      if (colors.length === ARTWORK_PALETTE_STOPS) break;
+    }
+  }
+
+  const luminance = ([r, g, b]: [number, number, number]) => 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  return colors.sort((a, b) => luminance(a) - luminance(b)).map(([r, g, b]) => `#${toHex(r)}${toHex(g)}${toHex(b)}`);
+}
+
+export function initMediaControls(onArtworkPalette: ArtworkPaletteHandler) {
+  mediaPrevBtn.addEventListener("click", () => sendAction("previoustrack"));
+  mediaPlayPauseBtn.addEventListener("click", () => sendAction("playpause"));
+  mediaNextBtn.addEventListener("click", () => sendAction("nexttrack"));
+
+  artworkPaletteBtn.addEventListener("click", async () => {
+    if (!info?.artworkUrl) return;
+
+    nowPlayingMessage.textContent = "";
+    try {
+      const stops = await extractArtworkPalette(info.artworkUrl);
+      if (stops.length < MIN_PALETTE_STOPS) {
+        nowPlayingMessage.textContent = "Artwork is too plain for a palette";
+        return;
+      }
+      await onArtworkPalette(stops);
+      nowPlayingMessage.textContent = "Palette set from artwork";
+    } catch (error) {
+      console.error("Failed to read artwork:", error);
+      nowPlayingMessage.textContent = "Couldn't read the artwork";
+    }
+  });
+
+  refresh();
+  setInterval(refresh, MEDIA_POLL_INTERVAL_MS);
+}
@@ -0,0 +1,125 @@
+// PulseSynth Palette Editor
+// Palette picker with gradient previews, custom colour stops and the hue rotation mix
+
+import {
+  BUILT_IN_PALETTES,
+  MAX_PALETTE_STOPS,
+  MIN_PALETTE_STOPS,
+  getPaletteGradient,
+  type BuiltInPaletteName,
+  type PaletteId,
+  type PaletteSettings,
+} from "../palettes";
+
+const paletteList = document.getElementById("paletteList") as HTMLDivElement;
+const customPaletteGroup = document.getElementById("customPaletteGroup") as HTMLDivElement;
+const customPaletteStops = document.getElementById("customPaletteStops") as HTMLDivElement;
+const addPaletteStopBtn = document.getElementById("addPaletteStopBtn") as HTMLButtonElement;
+const removePaletteStopBtn = document.getElementById("removePaletteStopBtn") as HTMLButtonElement;
+const paletteMixSlider = document.getElementById("paletteMixSlider") as HTMLInputElement;
+const paletteMixValue = document.getElementById("paletteMixValue") as HTMLSpanElement;
+
+// Preview of the classic formula, which sweeps through the hue wheel
+const CLASSIC_GRADIENT = "linear-gradient(90deg, #ff0080, #8000ff, #0080ff, #00ff80, #ffff00, #ff0000)";
+
+// Called whenever any palette setting changes; continuous is set while a colour or slider is being dragged
+type PaletteChangeHandler = (settings: PaletteSettings, continuous?: boolean) => Promise<void>;
+
+let current: PaletteSettings;
+let onChange: PaletteChangeHandler = async () => {};
+
+// Swatch button for each palette, keyed by palette ID
+const swatches = new Map<PaletteId, HTMLButtonElement>();
+
+function createSwatch(id: PaletteId, label: string, gradient: string) {
+  const swatch = document.createElement("button");
+  swatch.className = "palette-swatch";
+  swatch.textContent = label;
+  swatch.style.background = gradient;
+  swatch.addEventListener("click", async () => {
+    current.palette = id;
+    render();
+    await onChange(current);
+  });
+
+  paletteList.appendChild(swatch);
+  swatches.set(id, swatch);
+}
+
+// Rebuild the colour inputs for the custom stops
+function renderCustomStops() {
+  customPaletteStops.innerHTML = "";
+
+  current.customPalette.forEach((stop, i) => {
+    const input = document.createElement("input");
+    input.type = "color";
+    input.value = stop;
+    input.addEventListener("input", async () => {
+      current.customPalette[i] = input.value;
+      swatches.get("custom")!.style.background = getPaletteGradient(current.customPalette);
+      await onChange(current, true);
+    });
+    customPaletteStops.appendChild(input);
+  });
+
+  addPaletteStopBtn.disabled = current.customPalette.length >= MAX_PALETTE_STOPS;
+  removePaletteStopBtn.disabled = current.customPalette.length <= MIN_PALETTE_STOPS;
+}
+
+function render() {
+  for (const [id, swatch] of swatches) {
+    swatch.classList.toggle("selected", id === current.palette);
+  }
+  swatches.get("custom")!.style.background = getPaletteGradient(current.customPalette);
+
+  customPaletteGroup.hidden = current.palette !== "custom";
+  renderCustomStops();
+
+  // The mix only matters when a palette replaces the classic colours
+  paletteMixSlider.disabled = current.palette === "classic";
+  paletteMixSlider.value = String(current.paletteMix);
+  paletteMixValue.textContent = `${current.paletteMix}%`;
+}
+
+// Switch to the custom palette with the given stops (e.g. colours taken from album artwork)
+export async function useCustomPalette(stops: string[]) {
+  current.palette = "custom";
+  current.customPalette = stops.slice(0, MAX_PALETTE_STOPS);
+  render();
+  await onChange(current);
+}
+
+export function initPaletteEditor(initial: PaletteSettings, changeHandler: PaletteChangeHandler) {
+  current = { ...initial, customPalette: [...initial.customPalette] };
+  onChange = changeHandler;
+
+  createSwatch("classic", "Classic (hue rotation)", CLASSIC_GRADIENT);
+  for (const name of Object.keys(BUILT_IN_PALETTES) as BuiltInPaletteName[]) {
+    createSwatch(name, BUILT_IN_PALETTES[name].label, getPaletteGradient(BUILT_IN_PALETTES[name].stops));
+  }
+  createSwatch("custom", "Custom", getPaletteGradient(current.customPalette));
+
+  render();
+
+  addPaletteStopBtn.addEventListener("click", async () => {
+    if (current.customPalette.length >= MAX_PALETTE_STOPS) return;
+
+    current.customPalette.push(current.customPalette[current.customPalette.length - 1]);
+    render();
+    await onChange(current);
+  });
+
+  removePaletteStopBtn.addEventListener("click", async () => {
+    if (current.customPalette.length <= MIN_PALETTE_STOPS) return;
+
+    current.customPalette.pop();
+    render();
+    await onChange(current);
+  });
+
+  paletteMixSlider.addEventListener("input", async () => {
+    current.paletteMix = parseInt(paletteMixSlider.value);
+    paletteMixValue.textContent = `${current.paletteMix}%`;
+    await onChange(current, true);
+  });
+}
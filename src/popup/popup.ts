@@ -1,58 +1,90 @@
 // PulseSynth Popup Script
 
+import { initMediaControls } from "./mediaControls";
+import { initPaletteEditor, useCustomPalette } from "./paletteEditor";
+import { initPresetEditor, showActivePreset } from "./presetEditor";
+import { initRecorder } from "./recorder";
+import { initSiteRulesEditor } from "./siteRulesEditor";
+import {
+  OSCILLOSCOPE_EDGES,
+  VISUAL_MODES,
+  type CustomPreset,
+  type OscilloscopeEdge,
+  type VisualizerSetting,
+} from "../presets";
+import type { PaletteSettings } from "../palettes";
+import {
+  readMessage,
+  sendToBackground,
+  type BackgroundMessages,
+  type CaptureSource,
+  type CaptureSourceType,
+} from "../protocol";
+import { FRAME_RATE_CAPS, QUALITY_LEVELS, type QualitySetting } from "../quality";
+import type { SafeModeSetting } from "../safety";
+import {
+  createSettingsWriter,
+  isSettingsSyncEnabled,
+  loadSettings,
+  setSettingsSyncEnabled,
+  watchSettings,
+  type Settings,
+} from "../settings";
+
 const toggleBtn = document.getElementById("toggleBtn") as HTMLButtonElement;
 const statusDot = document.getElementById("statusDot") as HTMLDivElement;
 const statusText = document.getElementById("statusText") as HTMLSpanElement;
+const bpmValue = document.getElementById("bpmValue") as HTMLSpanElement;
+const messageRateValue = document.getElementById("messageRateValue") as HTMLSpanElement;
 const intensitySlider = document.getElementById("intensitySlider") as HTMLInputElement;
 const intensityValue = document.getElementById("intensityValue") as HTMLSpanElement;
 const glowWidthSlider = document.getElementById("glowWidthSlider") as HTMLInputElement;
 const glowWidthValue = document.getElementById("glowWidthValue") as HTMLSpanElement;
+const sourceTypeSelect = document.getElementById("sourceTypeSelect") as HTMLSelectElement;
 const tabSelect = document.getElementById("tabSelect") as HTMLSelectElement;
-const presetSelect = document.getElementById("presetSelect") as HTMLSelectElement;
+const deviceSelect = document.getElementById("deviceSelect") as HTMLSelectElement;
+const micPermissionBtn = document.getElementById("micPermissionBtn") as HTMLButtonElement;
+const sourceList = document.getElementById("sourceList") as HTMLDivElement;
+const addSourceBtn = document.getElementById("addSourceBtn") as HTMLButtonElement;
+const visualizerSelect = document.getElementById("visualizerSelect") as HTMLSelectElement;
+const oscilloscopeEdgeSelect = document.getElementById("oscilloscopeEdgeSelect") as HTMLSelectElement;
+const safeModeSelect = document.getElementById("safeModeSelect") as HTMLSelectElement;
+const safeModeNote = document.getElementById("safeModeNote") as HTMLParagraphElement;
+const qualitySelect = document.getElementById("qualitySelect") as HTMLSelectElement;
+const frameRateSelect = document.getElementById("frameRateSelect") as HTMLSelectElement;
+const fftSizeSelect = document.getElementById("fftSizeSelect") as HTMLSelectElement;
+const bassCrossoverSlider = document.getElementById("bassCrossoverSlider") as HTMLInputElement;
+const bassCrossoverValue = document.getElementById("bassCrossoverValue") as HTMLSpanElement;
+const midsCrossoverSlider = document.getElementById("midsCrossoverSlider") as HTMLInputElement;
+const midsCrossoverValue = document.getElementById("midsCrossoverValue") as HTMLSpanElement;
+const agcToggle = document.getElementById("agcToggle") as HTMLInputElement;
+const agcTargetSlider = document.getElementById("agcTargetSlider") as HTMLInputElement;
+const agcTargetValue = document.getElementById("agcTargetValue") as HTMLSpanElement;
+const syncToggle = document.getElementById("syncToggle") as HTMLInputElement;
+const syncNote = document.getElementById("syncNote") as HTMLParagraphElement;
 
 let isActive = false;
-let selectedTabId: number | null = null;
-
-// Preset type
-type PresetName = "ambient" | "punchy" | "chill";
+let hasMicPermission = false;
 
-// Settings interface
-interface Settings {
-  intensity: number;
-  glowWidth: number;
-  preset: PresetName;
-}
+// Settings as last changed in the popup; slider drags are written to storage in batches
+let settings: Settings;
+const settingsWriter = createSettingsWriter();
 
-// Default settings
-const defaultSettings: Settings = {
-  intensity: 100,
-  glowWidth: 100,
-  preset: "ambient",
-};
-
-// Load settings from storage
-async function loadSettings(): Promise<Settings> {
-  return new Promise((resolve) => {
-    chrome.storage.local.get(["pulseSynthSettings"], (result) => {
-      const stored = result.pulseSynthSettings as Settings | undefined;
-      resolve({ ...defaultSettings, ...stored });
-    });
-  });
+// Format a frequency for display
+function formatHz(hz: number): string {
+  return hz >= 1000 ? `${(hz / 1000).toFixed(1)} kHz` : `${hz} Hz`;
 }
 
-// Save settings to storage
-async function saveSettings(settings: Settings): Promise<void> {
-  return new Promise((resolve) => {
-    chrome.storage.local.set({ pulseSynthSettings: settings }, resolve);
-  });
+// Apply a change and save it right away; pages and the background pick it up from storage
+function changeSettings(change: Partial<Settings>) {
+  dragSettings(change);
+  settingsWriter.flush();
 }
 
-// Broadcast settings to all tabs
-function broadcastSettings(settings: Settings) {
-  chrome.runtime.sendMessage({
-    type: "UPDATE_SETTINGS",
-    settings: settings,
-  });
+// Apply a change from a slider drag; the writer saves a burst of them in one go
+function dragSettings(change: Partial<Settings>) {
+  settings = { ...settings, ...change };
+  settingsWriter.save(settings);
 }
 
 // Populate tab selector with open tabs
@@ -96,99 +128,410 @@ async function populateTabs() {
   }
 }
 
+// Populate device selector with audio inputs
+async function populateDevices(selectedDeviceId: string) {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  const inputs = devices.filter((device) => device.kind === "audioinput");
+
+  deviceSelect.innerHTML = '<option value="">Default Input</option>';
+
+  // Labels are empty until the extension has been granted microphone access
+  hasMicPermission = inputs.some((device) => device.label);
+
+  for (const device of inputs) {
+    if (!device.deviceId || device.deviceId === "default") continue;
+    const option = document.createElement("option");
+    option.value = device.deviceId;
+    option.textContent = device.label || "Audio Input";
+    deviceSelect.appendChild(option);
+  }
+
+  deviceSelect.value = selectedDeviceId;
+  if (deviceSelect.value !== selectedDeviceId) {
+    deviceSelect.value = "";
+  }
+}
+
+// Show the picker matching the selected source type
+function updateSourceUI(sourceType: CaptureSourceType) {
+  const isMic = sourceType === "microphone";
+  tabSelect.hidden = isMic;
+  deviceSelect.hidden = !isMic;
+  micPermissionBtn.hidden = !isMic || hasMicPermission;
+}
+
+// Render the list of active sources with weight sliders and stop buttons
+function renderSources(sources: CaptureSource[]) {
+  sourceList.innerHTML = "";
+  sourceList.hidden = sources.length === 0;
+
+  for (const source of sources) {
+    const row = document.createElement("div");
+    row.className = "source-row";
+
+    const label = document.createElement("span");
+    label.className = "source-label";
+    label.textContent = `${source.type === "microphone" ? "🎙️" : "🔊"} ${source.label}`;
+    label.title = source.label;
+
+    const weight = document.createElement("input");
+    weight.type = "range";
+    weight.className = "slider source-weight";
+    weight.min = "0";
+    weight.max = "100";
+    weight.value = String(Math.round(source.weight * 100));
+    weight.title = "Mix weight";
+    weight.addEventListener("input", () => {
+      sendToBackground("SET_SOURCE_WEIGHT", { sourceId: source.id, weight: parseInt(weight.value) / 100 });
+    });
+
+    const stopBtn = document.createElement("button");
+    stopBtn.className = "source-stop";
+    stopBtn.textContent = "✕";
+    stopBtn.title = "Stop this source";
+    stopBtn.addEventListener("click", () => {
+      stopBtn.disabled = true;
+      sendToBackground("STOP_CAPTURE", { sourceId: source.id }).then((response) => {
+        const sources = response?.sources ?? [];
+        if (response?.success) {
+          updateUI(sources.length > 0, sources);
+        } else {
+          stopBtn.disabled = false;
+        }
+      });
+    });
+
+    row.append(label, weight, stopBtn);
+    sourceList.appendChild(row);
+  }
+}
+
 // Update UI based on state
-function updateUI(active: boolean, tabId?: number) {
+function updateUI(active: boolean, sources: CaptureSource[] = []) {
   isActive = active;
+  renderSources(sources);
 
   if (active) {
     statusDot.classList.add("active");
     statusText.classList.add("active");
-    statusText.textContent = "Active";
-    toggleBtn.textContent = "Stop PulseSynth";
+    statusText.textContent = sources.length > 1 ? `Active (${sources.length} sources)` : "Active";
+    toggleBtn.textContent = "Stop All";
     toggleBtn.classList.add("btn-stop");
-    tabSelect.disabled = true;
-
-    // Select the captured tab in dropdown
-    if (tabId) {
-      tabSelect.value = String(tabId);
-    }
+    addSourceBtn.hidden = false;
   } else {
     statusDot.classList.remove("active");
     statusText.classList.remove("active");
     statusText.textContent = "Inactive";
     toggleBtn.textContent = "Start PulseSynth";
     toggleBtn.classList.remove("btn-stop");
-    tabSelect.disabled = false;
+    addSourceBtn.hidden = true;
+    updateBpm(0);
+  }
+}
+
+// Show detected tempo (the popup receives AUDIO_DATA like every extension page)
+function updateBpm(bpm: number) {
+  const text = bpm > 0 ? `${Math.round(bpm)} BPM` : "";
+  if (bpmValue.textContent !== text) {
+    bpmValue.textContent = text;
+  }
+}
+
+chrome.runtime.onMessage.addListener((raw) => {
+  const message = readMessage("background", raw);
+  if (message?.type === "AUDIO_DATA" && isActive) {
+    updateBpm(message.data.bpm);
   }
+  return false;
+});
+
+// Poll the background for the measured overlay message rate
+// Also picks up capture started or stopped by a keyboard shortcut
+function updateMessageRate() {
+  sendToBackground("GET_STATUS").then((response) => {
+    const rate = response?.isActive ? (response.messageRate ?? 0) : 0;
+    messageRateValue.textContent = response?.isActive ? `${rate} msg/s to visible tabs` : "";
+
+    const sources = response?.sources ?? [];
+    if (response && (response.isActive !== isActive || sources.length !== sourceList.childElementCount)) {
+      updateUI(response.isActive, sources);
+    }
+  });
 }
 
+setInterval(updateMessageRate, 1000);
+
+// Reflect settings changed by keyboard shortcuts while the popup is open
+// Ignored while the popup has unsaved changes, which would otherwise be undone by their own echo
+watchSettings((stored) => {
+  if (!settings || settingsWriter.isPending) return;
+  settings = stored;
+
+  intensitySlider.value = String(settings.intensity);
+  intensityValue.textContent = `${settings.intensity}%`;
+  glowWidthSlider.value = String(settings.glowWidth);
+  glowWidthValue.textContent = `${settings.glowWidth}%`;
+  showActivePreset(settings.preset);
+});
+
+// The popup closes without warning, so write a pending slider change as soon as it loses focus
+window.addEventListener("blur", () => settingsWriter.flush());
+document.addEventListener("visibilitychange", () => {
+  if (document.hidden) settingsWriter.flush();
+});
+window.addEventListener("pagehide", () => settingsWriter.flush());
+
 // Initialize popup
 async function init() {
   // Load saved settings
-  const settings = await loadSettings();
+  settings = await loadSettings();
+  syncToggle.checked = await isSettingsSyncEnabled();
+  if (syncToggle.checked) {
+    syncNote.textContent = "Shared through your browser profile; the audio source stays on this device";
+  }
 
   // Apply to UI
   intensitySlider.value = String(settings.intensity);
   intensityValue.textContent = `${settings.intensity}%`;
   glowWidthSlider.value = String(settings.glowWidth);
   glowWidthValue.textContent = `${settings.glowWidth}%`;
-  presetSelect.value = settings.preset;
+  fftSizeSelect.value = String(settings.fftSize);
+  bassCrossoverSlider.value = String(settings.bassCrossover);
+  bassCrossoverValue.textContent = formatHz(settings.bassCrossover);
+  midsCrossoverSlider.value = String(settings.midsCrossover);
+  midsCrossoverValue.textContent = formatHz(settings.midsCrossover);
+  agcToggle.checked = settings.agcEnabled;
+  agcTargetSlider.value = String(settings.agcTarget);
+  agcTargetSlider.disabled = !settings.agcEnabled;
+  agcTargetValue.textContent = `${settings.agcTarget}%`;
+
+  // Populate preset list and editor
+  await initPresetEditor(settings.preset, applyPreset);
+
+  // Populate overlay modes
+  for (const [mode, label] of Object.entries(VISUAL_MODES)) {
+    const option = document.createElement("option");
+    option.value = mode;
+    option.textContent = label;
+    visualizerSelect.appendChild(option);
+  }
+  visualizerSelect.value = settings.visualizer;
+
+  for (const [edge, label] of Object.entries(OSCILLOSCOPE_EDGES)) {
+    const option = document.createElement("option");
+    option.value = edge;
+    option.textContent = label;
+    oscilloscopeEdgeSelect.appendChild(option);
+  }
+  oscilloscopeEdgeSelect.value = settings.oscilloscopeEdge;
+
+  safeModeSelect.value = settings.safeMode;
+  if (window.matchMedia("(prefers-reduced-motion: reduce)").matches) {
+    safeModeNote.textContent = "Your system asks for reduced motion, so safe mode is on in Auto";
+  }
+
+  for (const [quality, label] of Object.entries(QUALITY_LEVELS)) {
+    const option = document.createElement("option");
+    option.value = quality;
+    option.textContent = label;
+    qualitySelect.appendChild(option);
+  }
+  qualitySelect.value = settings.quality;
+
+  for (const { value, label } of FRAME_RATE_CAPS) {
+    const option = document.createElement("option");
+    option.value = String(value);
+    option.textContent = label;
+    frameRateSelect.appendChild(option);
+  }
+  frameRateSelect.value = String(settings.frameRateCap);
+
+  // Palette picker
+  initPaletteEditor(settings, applyPalette);
+
+  // Now playing in the captured tab
+  initMediaControls(useCustomPalette);
+
+  // Site toggle and rules list
+  await initSiteRulesEditor();
 
-  // Populate tab list
+  // Session recording and replay
+  initRecorder();
+
+  // Populate tab and device lists
+  sourceTypeSelect.value = settings.sourceType;
   await populateTabs();
+  await populateDevices(settings.inputDeviceId);
+  updateSourceUI(settings.sourceType);
 
   // Check capture status
-  chrome.runtime.sendMessage({ type: "GET_STATUS" }, (response) => {
+  sendToBackground("GET_STATUS").then((response) => {
     if (response?.isActive) {
-      updateUI(true, response.tabId);
+      updateUI(true, response.sources);
     }
   });
 }
 
 // Intensity slider handler
-intensitySlider.addEventListener("input", async () => {
+intensitySlider.addEventListener("input", () => {
   const value = parseInt(intensitySlider.value);
   intensityValue.textContent = `${value}%`;
 
-  const settings = await loadSettings();
-  settings.intensity = value;
-  await saveSettings(settings);
-  broadcastSettings(settings);
+  dragSettings({ intensity: value });
 });
 
 // Glow width slider handler
-glowWidthSlider.addEventListener("input", async () => {
+glowWidthSlider.addEventListener("input", () => {
   const value = parseInt(glowWidthSlider.value);
   glowWidthValue.textContent = `${value}%`;
 
-  const settings = await loadSettings();
-  settings.glowWidth = value;
-  await saveSettings(settings);
-  broadcastSettings(settings);
+  dragSettings({ glowWidth: value });
+});
+
+// Activate a preset chosen in the preset editor
+// Custom presets also carry their own intensity and glow width
+async function applyPreset(presetId: string, preset: CustomPreset | null) {
+  const change: Partial<Settings> = { preset: presetId };
+
+  if (preset) {
+    change.intensity = preset.intensity;
+    change.glowWidth = preset.glowWidth;
+    intensitySlider.value = String(preset.intensity);
+    intensityValue.textContent = `${preset.intensity}%`;
+    glowWidthSlider.value = String(preset.glowWidth);
+    glowWidthValue.textContent = `${preset.glowWidth}%`;
+  }
+
+  changeSettings(change);
+}
+
+// Overlay mode selector handler
+visualizerSelect.addEventListener("change", () => {
+  changeSettings({ visualizer: visualizerSelect.value as VisualizerSetting });
+});
+
+// Oscilloscope edge selector handler
+oscilloscopeEdgeSelect.addEventListener("change", () => {
+  changeSettings({ oscilloscopeEdge: oscilloscopeEdgeSelect.value as OscilloscopeEdge });
 });
 
-// Preset selector handler
-presetSelect.addEventListener("change", async () => {
-  const value = presetSelect.value as PresetName;
+// Safe mode selector handler
+// Unlocking needs confirmation so a locked safe mode isn't switched off by a stray click
+safeModeSelect.addEventListener("change", () => {
+  const value = safeModeSelect.value as SafeModeSetting;
+
+  if (settings.safeMode === "locked" && value !== "locked") {
+    const confirmed = confirm(
+      "Turn off the locked safe mode? The overlay may flash quickly, which can affect people with photosensitivity.",
+    );
+    if (!confirmed) {
+      safeModeSelect.value = settings.safeMode;
+      return;
+    }
+  }
 
-  const settings = await loadSettings();
-  settings.preset = value;
-  await saveSettings(settings);
-  broadcastSettings(settings);
+  changeSettings({ safeMode: value });
 });
 
-// Handle button click
-toggleBtn.addEventListener("click", async () => {
-  toggleBtn.disabled = true;
+// Render quality selector handler
+qualitySelect.addEventListener("change", () => {
+  changeSettings({ quality: qualitySelect.value as QualitySetting });
+});
 
-  if (isActive) {
-    // Stop capture
-    chrome.runtime.sendMessage({ type: "STOP_CAPTURE" }, (response) => {
-      toggleBtn.disabled = false;
-      if (response?.success) {
-        updateUI(false);
-      }
-    });
+// Frame rate cap selector handler
+frameRateSelect.addEventListener("change", () => {
+  changeSettings({ frameRateCap: parseInt(frameRateSelect.value) });
+});
+
+// Save palette changes from the palette editor (colour pickers and the mix slider are dragged)
+async function applyPalette(palette: PaletteSettings, continuous = false) {
+  (continuous ? dragSettings : changeSettings)({
+    palette: palette.palette,
+    customPalette: [...palette.customPalette],
+    paletteMix: palette.paletteMix,
+  });
+}
+
+// FFT size selector handler
+fftSizeSelect.addEventListener("change", () => {
+  changeSettings({ fftSize: parseInt(fftSizeSelect.value) });
+});
+
+// Bass crossover slider handler
+bassCrossoverSlider.addEventListener("input", () => {
+  const value = parseInt(bassCrossoverSlider.value);
+  bassCrossoverValue.textContent = formatHz(value);
+
+  dragSettings({ bassCrossover: value });
+});
+
+// Mids crossover slider handler
+midsCrossoverSlider.addEventListener("input", () => {
+  const value = parseInt(midsCrossoverSlider.value);
+  midsCrossoverValue.textContent = formatHz(value);
+
+  dragSettings({ midsCrossover: value });
+});
+
+// AGC toggle handler
+agcToggle.addEventListener("change", () => {
+  agcTargetSlider.disabled = !agcToggle.checked;
+
+  changeSettings({ agcEnabled: agcToggle.checked });
+});
+
+// AGC target slider handler
+agcTargetSlider.addEventListener("input", () => {
+  const value = parseInt(agcTargetSlider.value);
+  agcTargetValue.textContent = `${value}%`;
+
+  dragSettings({ agcTarget: value });
+});
+
+// Source type selector handler
+sourceTypeSelect.addEventListener("change", () => {
+  const value = sourceTypeSelect.value as CaptureSourceType;
+  updateSourceUI(value);
+
+  changeSettings({ sourceType: value });
+});
+
+// Input device selector handler
+deviceSelect.addEventListener("change", () => {
+  changeSettings({ inputDeviceId: deviceSelect.value });
+});
+
+// Sync toggle: move the settings to chrome.storage.sync or back to this machine
+// Turning sync on may bring in settings from another machine, so the popup reloads to show them
+syncToggle.addEventListener("change", async () => {
+  syncToggle.disabled = true;
+  syncNote.classList.remove("error");
+  await settingsWriter.flush();
+
+  try {
+    await setSettingsSyncEnabled(syncToggle.checked);
+    location.reload();
+  } catch (error) {
+    syncToggle.checked = !syncToggle.checked;
+    syncToggle.disabled = false;
+    syncNote.textContent = `Couldn't change sync: ${error instanceof Error ? error.message : String(error)}`;
+    syncNote.classList.add("error");
+  }
+});
+
+// Microphone permission can't be prompted from the popup or offscreen document,
+// so open a regular extension page that asks for it
+micPermissionBtn.addEventListener("click", () => {
+  chrome.tabs.create({ url: chrome.runtime.getURL("permission/permission.html") });
+});
+
+// Start capturing the source selected in the Audio Source section
+function startSelectedSource(onDone: () => void) {
+  let request: BackgroundMessages["START_CAPTURE"]["payload"];
+
+  if (sourceTypeSelect.value === "microphone") {
+    // Capture from the selected input device
+    request = { sourceType: "microphone", deviceId: deviceSelect.value || undefined };
   } else {
     // Get selected tab
     const selectedValue = tabSelect.value;
@@ -197,18 +540,45 @@ toggleBtn.addEventListener("click", async () => {
     if (selectedValue !== "current") {
       tabId = parseInt(selectedValue);
     }
+    request = { sourceType: "tab", tabId };
+  }
+
+  sendToBackground("START_CAPTURE", request).then((response) => {
+    onDone();
+    if (response?.success) {
+      updateUI(true, response.sources);
+    } else {
+      console.error("Failed to start capture:", response?.error);
+    }
+  });
+}
+
+// Handle button click
+toggleBtn.addEventListener("click", async () => {
+  toggleBtn.disabled = true;
 
-    // Start capture
-    chrome.runtime.sendMessage({ type: "START_CAPTURE", tabId }, (response) => {
+  if (isActive) {
+    // Stop all sources
+    sendToBackground("STOP_CAPTURE").then((response) => {
       toggleBtn.disabled = false;
       if (response?.success) {
-        updateUI(true, response.tabId);
-      } else {
-        console.error("Failed to start capture:", response?.error);
+        updateUI(false);
       }
     });
+  } else {
+    startSelectedSource(() => {
+      toggleBtn.disabled = false;
+    });
   }
 });
 
+// Add another source to the mix while capturing
+addSourceBtn.addEventListener("click", () => {
+  addSourceBtn.disabled = true;
+  startSelectedSource(() => {
+    addSourceBtn.disabled = false;
+  });
+});
+
 // Initialize on load
 init();
@@ -0,0 +1,336 @@
+// PulseSynth Preset Editor
+// Create, edit, duplicate, delete, import and export user-defined presets
+
+import {
+  BUILT_IN_PRESETS,
+  BUILT_IN_PRESET_LABELS,
+  CUSTOM_PRESETS_KEY,
+  PRESET_FIELD_RANGES,
+  VISUAL_MODES,
+  createPresetId,
+  exportPresetFile,
+  isBuiltInPreset,
+  parsePresetFile,
+  type BuiltInPresetName,
+  type CustomPreset,
+  type PresetNumericField,
+  type VisualMode,
+} from "../presets";
+import { downloadFile } from "./files";
+
+const presetSelect = document.getElementById("presetSelect") as HTMLSelectElement;
+const presetReadOnlyNote = document.getElementById("presetReadOnlyNote") as HTMLParagraphElement;
+const presetNameInput = document.getElementById("presetNameInput") as HTMLInputElement;
+const presetModeSelect = document.getElementById("presetModeSelect") as HTMLSelectElement;
+const presetFields = document.getElementById("presetFields") as HTMLDivElement;
+const presetIntensitySlider = document.getElementById("presetIntensitySlider") as HTMLInputElement;
+const presetIntensityValue = document.getElementById("presetIntensityValue") as HTMLSpanElement;
+const presetGlowWidthSlider = document.getElementById("presetGlowWidthSlider") as HTMLInputElement;
+const presetGlowWidthValue = document.getElementById("presetGlowWidthValue") as HTMLSpanElement;
+const newPresetBtn = document.getElementById("newPresetBtn") as HTMLButtonElement;
+const duplicatePresetBtn = document.getElementById("duplicatePresetBtn") as HTMLButtonElement;
+const deletePresetBtn = document.getElementById("deletePresetBtn") as HTMLButtonElement;
+const exportPresetBtn = document.getElementById("exportPresetBtn") as HTMLButtonElement;
+const importPresetBtn = document.getElementById("importPresetBtn") as HTMLButtonElement;
+const importPresetInput = document.getElementById("importPresetInput") as HTMLInputElement;
+const presetMessage = document.getElementById("presetMessage") as HTMLParagraphElement;
+
+// Called when a preset becomes active (custom presets carry intensity and glow width)
+type ActivatePresetHandler = (presetId: string, preset: CustomPreset | null) => Promise<void>;
+
+let customPresets: CustomPreset[] = [];
+let selectedPresetId = "ambient";
+let onActivate: ActivatePresetHandler = async () => {};
+
+// Slider + value label for each numeric preset field
+const fieldInputs = {} as Record<PresetNumericField, { slider: HTMLInputElement; value: HTMLSpanElement }>;
+
+// Load custom presets from storage
+async function loadCustomPresets(): Promise<CustomPreset[]> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get([CUSTOM_PRESETS_KEY], (result) => {
+      resolve((result[CUSTOM_PRESETS_KEY] as CustomPreset[] | undefined) ?? []);
+    });
+  });
+}
+
+// Save custom presets to storage (content scripts pick up changes via storage.onChanged)
+async function saveCustomPresets(): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.local.set({ [CUSTOM_PRESETS_KEY]: customPresets }, resolve);
+  });
+}
+
+function getSelectedCustomPreset(): CustomPreset | null {
+  return customPresets.find((preset) => preset.id === selectedPresetId) ?? null;
+}
+
+// Plain name of the selected preset (built-in labels start with an emoji)
+function getSelectedPresetName(): string {
+  const custom = getSelectedCustomPreset();
+  return custom ? custom.name : BUILT_IN_PRESET_LABELS[selectedPresetId as BuiltInPresetName].replace(/^\S+\s/u, "");
+}
+
+function showMessage(text: string, isError = false) {
+  presetMessage.textContent = text;
+  presetMessage.classList.toggle("error", isError);
+}
+
+// Rebuild the preset dropdown with built-in and custom groups
+function renderPresetOptions() {
+  presetSelect.innerHTML = "";
+
+  const builtInGroup = document.createElement("optgroup");
+  builtInGroup.label = "Built-in";
+  for (const name of Object.keys(BUILT_IN_PRESETS) as BuiltInPresetName[]) {
+    const option = document.createElement("option");
+    option.value = name;
+    option.textContent = BUILT_IN_PRESET_LABELS[name];
+    builtInGroup.appendChild(option);
+  }
+  presetSelect.appendChild(builtInGroup);
+
+  if (customPresets.length > 0) {
+    const customGroup = document.createElement("optgroup");
+    customGroup.label = "Custom";
+    for (const preset of customPresets) {
+      const option = document.createElement("option");
+      option.value = preset.id;
+      option.textContent = `✏️ ${preset.name}`;
+      customGroup.appendChild(option);
+    }
+    presetSelect.appendChild(customGroup);
+  }
+
+  presetSelect.value = selectedPresetId;
+}
+
+// Create the field sliders once from the shared range table
+function buildFieldInputs() {
+  for (const field of Object.keys(PRESET_FIELD_RANGES) as PresetNumericField[]) {
+    const range = PRESET_FIELD_RANGES[field];
+
+    const group = document.createElement("div");
+    group.className = "control-group";
+
+    const label = document.createElement("div");
+    label.className = "control-label";
+    const name = document.createElement("span");
+    name.textContent = range.label;
+    const value = document.createElement("span");
+    value.className = "control-value";
+    label.append(name, value);
+
+    const slider = document.createElement("input");
+    slider.type = "range";
+    slider.className = "slider";
+    slider.min = String(range.min);
+    slider.max = String(range.max);
+    slider.step = String(range.step);
+    slider.addEventListener("input", async () => {
+      const preset = getSelectedCustomPreset();
+      if (!preset) return;
+
+      preset.params[field] = parseFloat(slider.value);
+      value.textContent = slider.value;
+      await saveCustomPresets();
+    });
+
+    group.append(label, slider);
+    presetFields.appendChild(group);
+    fieldInputs[field] = { slider, value };
+  }
+
+  for (const [mode, label] of Object.entries(VISUAL_MODES)) {
+    const option = document.createElement("option");
+    option.value = mode;
+    option.textContent = label;
+    presetModeSelect.appendChild(option);
+  }
+}
+
+// Show the selected preset in the editor; built-ins are shown read-only
+function renderEditor() {
+  const custom = getSelectedCustomPreset();
+  const readOnly = custom === null;
+  const params = custom ? custom.params : BUILT_IN_PRESETS[selectedPresetId as BuiltInPresetName];
+  const name = custom ? custom.name : BUILT_IN_PRESET_LABELS[selectedPresetId as BuiltInPresetName];
+
+  presetReadOnlyNote.hidden = !readOnly;
+  presetNameInput.value = name;
+  presetModeSelect.value = params.mode;
+
+  for (const field of Object.keys(fieldInputs) as PresetNumericField[]) {
+    fieldInputs[field].slider.value = String(params[field]);
+    fieldInputs[field].slider.disabled = readOnly;
+    fieldInputs[field].value.textContent = String(params[field]);
+  }
+
+  const intensity = custom?.intensity ?? 100;
+  const glowWidth = custom?.glowWidth ?? 100;
+  presetIntensitySlider.value = String(intensity);
+  presetIntensityValue.textContent = `${intensity}%`;
+  presetGlowWidthSlider.value = String(glowWidth);
+  presetGlowWidthValue.textContent = `${glowWidth}%`;
+
+  presetNameInput.disabled = readOnly;
+  presetModeSelect.disabled = readOnly;
+  presetIntensitySlider.disabled = readOnly;
+  presetGlowWidthSlider.disabled = readOnly;
+  deletePresetBtn.disabled = readOnly;
+}
+
+// Make a preset active and show it in the editor
+async function selectPreset(presetId: string) {
+  selectedPresetId = presetId;
+  renderPresetOptions();
+  renderEditor();
+  await onActivate(presetId, getSelectedCustomPreset());
+}
+
+// Add a custom preset and make it active
+async function addPreset(preset: CustomPreset) {
+  customPresets.push(preset);
+  await saveCustomPresets();
+  await selectPreset(preset.id);
+}
+
+// Copy the selected preset (built-in or custom) into a new custom preset
+function copySelectedPreset(name: string): CustomPreset {
+  const custom = getSelectedCustomPreset();
+  const params = custom ? custom.params : BUILT_IN_PRESETS[selectedPresetId as BuiltInPresetName];
+  return {
+    id: createPresetId(),
+    name,
+    params: { ...params },
+    intensity: custom?.intensity ?? 100,
+    glowWidth: custom?.glowWidth ?? 100,
+  };
+}
+
+// Show a preset chosen elsewhere (e.g. by keyboard shortcut) without re-activating it
+export function showActivePreset(presetId: string) {
+  if (presetId === selectedPresetId) return;
+  if (!isBuiltInPreset(presetId) && !customPresets.some((preset) => preset.id === presetId)) return;
+
+  selectedPresetId = presetId;
+  renderPresetOptions();
+  renderEditor();
+}
+
+export async function initPresetEditor(activePresetId: string, activateHandler: ActivatePresetHandler) {
+  onActivate = activateHandler;
+  customPresets = await loadCustomPresets();
+
+  // Stored setting may refer to a preset that has since been deleted
+  selectedPresetId =
+    isBuiltInPreset(activePresetId) || customPresets.some((preset) => preset.id === activePresetId)
+      ? activePresetId
+      : "ambient";
+
+  buildFieldInputs();
+  renderPresetOptions();
+  renderEditor();
+
+  presetSelect.addEventListener("change", () => {
+    showMessage("");
+    selectPreset(presetSelect.value);
+  });
+
+  presetNameInput.addEventListener("change", async () => {
+    const preset = getSelectedCustomPreset();
+    const name = presetNameInput.value.trim();
+    if (!preset || !name) {
+      renderEditor();
+      return;
+    }
+
+    preset.name = name;
+    await saveCustomPresets();
+    renderPresetOptions();
+  });
+
+  presetModeSelect.addEventListener("change", async () => {
+    const preset = getSelectedCustomPreset();
+    if (!preset) return;
+
+    preset.params.mode = presetModeSelect.value as VisualMode;
+    await saveCustomPresets();
+  });
+
+  // Intensity and glow width are user settings too, so re-activate to apply them
+  presetIntensitySlider.addEventListener("input", async () => {
+    const preset = getSelectedCustomPreset();
+    if (!preset) return;
+
+    preset.intensity = parseInt(presetIntensitySlider.value);
+    presetIntensityValue.textContent = `${preset.intensity}%`;
+    await saveCustomPresets();
+    await onActivate(preset.id, preset);
+  });
+
+  presetGlowWidthSlider.addEventListener("input", async () => {
+    const preset = getSelectedCustomPreset();
+    if (!preset) return;
+
+    preset.glowWidth = parseInt(presetGlowWidthSlider.value);
+    presetGlowWidthValue.textContent = `${preset.glowWidth}%`;
+    await saveCustomPresets();
+    await onActivate(preset.id, preset);
+  });
+
+  newPresetBtn.addEventListener("click", async () => {
+    const preset: CustomPreset = {
+      id: createPresetId(),
+      name: `My Preset ${customPresets.length + 1}`,
+      params: { ...BUILT_IN_PRESETS.ambient },
+      intensity: 100,
+      glowWidth: 100,
+    };
+    await addPreset(preset);
+    showMessage(`Created "${preset.name}"`);
+  });
+
+  duplicatePresetBtn.addEventListener("click", async () => {
+    const preset = copySelectedPreset(`${getSelectedPresetName()} Copy`);
+    await addPreset(preset);
+    showMessage(`Created "${preset.name}"`);
+  });
+
+  deletePresetBtn.addEventListener("click", async () => {
+    const preset = getSelectedCustomPreset();
+    if (!preset || !confirm(`Delete preset "${preset.name}"?`)) return;
+
+    customPresets = customPresets.filter((candidate) => candidate.id !== preset.id);
+    await saveCustomPresets();
+    await selectPreset("ambient");
+    showMessage(`Deleted "${preset.name}"`);
+  });
+
+  exportPresetBtn.addEventListener("click", () => {
+    const preset = copySelectedPreset(getSelectedPresetName());
+    const filename = `pulsesynth-${preset.name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}.json`;
+    downloadFile(filename, exportPresetFile([preset]));
+  });
+
+  importPresetBtn.addEventListener("click", () => {
+    importPresetInput.click();
+  });
+
+  importPresetInput.addEventListener("change", async () => {
+    const file = importPresetInput.files?.[0];
+    importPresetInput.value = "";
+    if (!file) return;
+
+    const { presets, error } = parsePresetFile(await file.text());
+    if (error) {
+      showMessage(`Import failed: ${error}`, true);
+      return;
+    }
+
+    customPresets.push(...presets);
+    await saveCustomPresets();
+    await selectPreset(presets[0].id);
+    showMessage(`Imported ${presets.length} preset${presets.length > 1 ? "s" : ""}`);
+  });
+}
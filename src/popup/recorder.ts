@@ -0,0 +1,127 @@
+// PulseSynth Recorder
+// Record the analysed frames to a file and replay recordings through the overlays
+
+import { sendToBackground } from "../protocol";
+import { exportRecordingFile, parseRecordingFile, type ReplayStatus } from "../recording";
+import { downloadFile } from "./files";
+
+const recordBtn = document.getElementById("recordBtn") as HTMLButtonElement;
+const loadRecordingBtn = document.getElementById("loadRecordingBtn") as HTMLButtonElement;
+const loadRecordingInput = document.getElementById("loadRecordingInput") as HTMLInputElement;
+const replayControls = document.getElementById("replayControls") as HTMLDivElement;
+const replayName = document.getElementById("replayName") as HTMLSpanElement;
+const replayPosition = document.getElementById("replayPosition") as HTMLSpanElement;
+const replayPlayPauseBtn = document.getElementById("replayPlayPauseBtn") as HTMLButtonElement;
+const replayStopBtn = document.getElementById("replayStopBtn") as HTMLButtonElement;
+const replayLoopToggle = document.getElementById("replayLoopToggle") as HTMLInputElement;
+const recordingMessage = document.getElementById("recordingMessage") as HTMLParagraphElement;
+
+const STATUS_POLL_INTERVAL_MS = 500;
+
+let isRecording = false;
+let replay: ReplayStatus | null = null;
+
+function formatTime(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+function showMessage(text: string, isError = false) {
+  recordingMessage.textContent = text;
+  recordingMessage.classList.toggle("error", isError);
+}
+
+function render() {
+  recordBtn.textContent = isRecording ? "⏹ Stop & Save" : "⏺ Record";
+
+  replayControls.hidden = replay === null;
+  if (!replay) return;
+
+  replayName.textContent = replay.name;
+  replayName.title = replay.name;
+  replayPosition.textContent = `${formatTime(replay.positionMs)} / ${formatTime(replay.durationMs)}`;
+  replayPlayPauseBtn.textContent = replay.isPlaying ? "⏸ Pause" : "▶ Play";
+  replayLoopToggle.checked = replay.loop;
+}
+
+function refresh() {
+  sendToBackground("GET_RECORDING_STATUS").then((response) => {
+    isRecording = response?.isRecording ?? false;
+    replay = response?.replay ?? null;
+    render();
+  });
+}
+
+// Show the replay state resulting from a replay control message
+async function showReplayStatus(request: Promise<ReplayStatus | null>) {
+  replay = await request;
+  render();
+}
+
+async function stopAndSave() {
+  const response = await sendToBackground("STOP_RECORDING");
+  isRecording = false;
+  render();
+
+  if (!response?.recording) {
+    showMessage("Nothing was recorded");
+    return;
+  }
+
+  const stamp = response.recording.recordedAt.replace(/[:.]/g, "-");
+  downloadFile(`pulsesynth-recording-${stamp}.json`, exportRecordingFile(response.recording));
+  showMessage(`Saved ${formatTime(response.recording.durationMs)} recording`);
+}
+
+export function initRecorder() {
+  recordBtn.addEventListener("click", async () => {
+    showMessage("");
+
+    if (isRecording) {
+      await stopAndSave();
+      return;
+    }
+
+    const response = await sendToBackground("START_RECORDING");
+    if (!response?.success) {
+      showMessage(response?.error ?? "Couldn't start recording", true);
+      return;
+    }
+    isRecording = true;
+    render();
+  });
+
+  loadRecordingBtn.addEventListener("click", () => {
+    loadRecordingInput.click();
+  });
+
+  loadRecordingInput.addEventListener("change", async () => {
+    const file = loadRecordingInput.files?.[0];
+    loadRecordingInput.value = "";
+    if (!file) return;
+
+    const { recording, error } = parseRecordingFile(await file.text());
+    if (error || !recording) {
+      showMessage(`Load failed: ${error}`, true);
+      return;
+    }
+
+    showMessage("");
+    await showReplayStatus(sendToBackground("REPLAY_LOAD", { recording, name: file.name }));
+  });
+
+  replayPlayPauseBtn.addEventListener("click", () => {
+    showReplayStatus(sendToBackground(replay?.isPlaying ? "REPLAY_PAUSE" : "REPLAY_PLAY"));
+  });
+
+  replayStopBtn.addEventListener("click", () => {
+    showReplayStatus(sendToBackground("REPLAY_STOP"));
+  });
+
+  replayLoopToggle.addEventListener("change", () => {
+    showReplayStatus(sendToBackground("REPLAY_SET_LOOP", { loop: replayLoopToggle.checked }));
+  });
+
+  refresh();
+  setInterval(refresh, STATUS_POLL_INTERVAL_MS);
+}
@@ -0,0 +1,217 @@
+// PulseSynth Site Rules Editor
+// "Disable on this site" toggle and the editable per-site rules list
+
+import {
+  BUILT_IN_PRESETS,
+  BUILT_IN_PRESET_LABELS,
+  CUSTOM_PRESETS_KEY,
+  type BuiltInPresetName,
+  type CustomPreset,
+} from "../presets";
+import {
+  SITE_RULES_KEY,
+  createSiteRuleId,
+  findSiteRule,
+  getSiteHostname,
+  normalizeSitePattern,
+  type SiteRule,
+} from "../siteRules";
+
+const siteToggleBtn = document.getElementById("siteToggleBtn") as HTMLButtonElement;
+const siteRuleNote = document.getElementById("siteRuleNote") as HTMLParagraphElement;
+const siteRuleList = document.getElementById("siteRuleList") as HTMLDivElement;
+const addSiteRuleBtn = document.getElementById("addSiteRuleBtn") as HTMLButtonElement;
+
+let siteRules: SiteRule[] = [];
+let customPresets: CustomPreset[] = [];
+let currentUrl: string | undefined;
+let currentHostname: string | null = null;
+
+// Load rules and the custom presets a rule may refer to
+async function loadRules(): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get([SITE_RULES_KEY, CUSTOM_PRESETS_KEY], (result) => {
+      siteRules = (result[SITE_RULES_KEY] as SiteRule[] | undefined) ?? [];
+      customPresets = (result[CUSTOM_PRESETS_KEY] as CustomPreset[] | undefined) ?? [];
+      resolve();
+    });
+  });
+}
+
+// Save rules (the background and content scripts pick up changes via storage.onChanged)
+async function saveRules(): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.local.set({ [SITE_RULES_KEY]: siteRules }, resolve);
+  });
+}
+
+// Parse an optional 0-100 override; blank means "use the global setting"
+function parseOverride(value: string): number | undefined {
+  if (value.trim() === "") return undefined;
+  const parsed = parseInt(value);
+  return Number.isFinite(parsed) ? Math.max(0, Math.min(100, parsed)) : undefined;
+}
+
+// Show the toggle for the current tab's site and which rule applies there
+function renderSiteToggle() {
+  if (!currentHostname) {
+    siteToggleBtn.hidden = true;
+    siteRuleNote.textContent = "";
+    return;
+  }
+
+  const rule = findSiteRule(currentUrl, siteRules);
+  siteToggleBtn.hidden = false;
+  siteToggleBtn.textContent = rule?.disabled ? `Enable on ${currentHostname}` : `Disable on ${currentHostname}`;
+  siteRuleNote.textContent = rule ? `Rule "${rule.pattern}" applies to this site` : "";
+}
+
+function createPresetOptions(select: HTMLSelectElement, selected: string | undefined) {
+  const inherit = document.createElement("option");
+  inherit.value = "";
+  inherit.textContent = "Preset: default";
+  select.appendChild(inherit);
+
+  for (const name of Object.keys(BUILT_IN_PRESETS) as BuiltInPresetName[]) {
+    const option = document.createElement("option");
+    option.value = name;
+    option.textContent = BUILT_IN_PRESET_LABELS[name];
+    select.appendChild(option);
+  }
+  for (const preset of customPresets) {
+    const option = document.createElement("option");
+    option.value = preset.id;
+    option.textContent = `✏️ ${preset.name}`;
+    select.appendChild(option);
+  }
+
+  select.value = selected ?? "";
+}
+
+function createOverrideInput(rule: SiteRule, field: "intensity" | "glowWidth", placeholder: string) {
+  const input = document.createElement("input");
+  input.type = "number";
+  input.className = "text-input rule-number";
+  input.min = "0";
+  input.max = "100";
+  input.placeholder = placeholder;
+  input.title = `${placeholder} override (blank = default)`;
+  input.value = rule[field] === undefined ? "" : String(rule[field]);
+  input.addEventListener("change", async () => {
+    rule[field] = parseOverride(input.value);
+    input.value = rule[field] === undefined ? "" : String(rule[field]);
+    await saveRules();
+  });
+  return input;
+}
+
+// Rebuild the rules list
+function renderRules() {
+  siteRuleList.innerHTML = "";
+  siteRuleList.hidden = siteRules.length === 0;
+
+  for (const rule of siteRules) {
+    const row = document.createElement("div");
+    row.className = "rule-row";
+
+    const header = document.createElement("div");
+    header.className = "source-row";
+
+    const pattern = document.createElement("input");
+    pattern.type = "text";
+    pattern.className = "text-input";
+    pattern.placeholder = "*.example.com";
+    pattern.value = rule.pattern;
+    pattern.addEventListener("change", async () => {
+      rule.pattern = normalizeSitePattern(pattern.value);
+      pattern.value = rule.pattern;
+      await saveRules();
+      renderSiteToggle();
+    });
+
+    const enabled = document.createElement("input");
+    enabled.type = "checkbox";
+    enabled.checked = !rule.disabled;
+    enabled.title = "Show the overlay on matching sites";
+    enabled.addEventListener("change", async () => {
+      rule.disabled = !enabled.checked;
+      await saveRules();
+      renderSiteToggle();
+    });
+
+    const remove = document.createElement("button");
+    remove.className = "source-stop";
+    remove.textContent = "✕";
+    remove.title = "Delete rule";
+    remove.addEventListener("click", async () => {
+      siteRules = siteRules.filter((candidate) => candidate.id !== rule.id);
+      await saveRules();
+      renderRules();
+      renderSiteToggle();
+    });
+
+    header.append(pattern, enabled, remove);
+
+    const overrides = document.createElement("div");
+    overrides.className = "source-row";
+
+    const preset = document.createElement("select");
+    preset.className = "tab-select rule-preset";
+    createPresetOptions(preset, rule.preset);
+    preset.addEventListener("change", async () => {
+      rule.preset = preset.value || undefined;
+      await saveRules();
+    });
+
+    overrides.append(
+      createOverrideInput(rule, "intensity", "Intensity"),
+      createOverrideInput(rule, "glowWidth", "Width"),
+      preset,
+    );
+
+    row.append(header, overrides);
+    siteRuleList.appendChild(row);
+  }
+}
+
+export async function initSiteRulesEditor() {
+  await loadRules();
+
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  currentUrl = tab?.url;
+  currentHostname = getSiteHostname(currentUrl);
+
+  renderSiteToggle();
+  renderRules();
+
+  // Toggle an exact rule for this host; an exact rule also beats any wildcard rule
+  siteToggleBtn.addEventListener("click", async () => {
+    if (!currentHostname) return;
+
+    const disable = !findSiteRule(currentUrl, siteRules)?.disabled;
+    const exact = siteRules.find((rule) => rule.pattern === currentHostname);
+    if (exact) {
+      exact.disabled = disable;
+    } else {
+      siteRules.push({ id: createSiteRuleId(), pattern: currentHostname, disabled: disable });
+    }
+
+    await saveRules();
+    renderRules();
+    renderSiteToggle();
+  });
+
+  addSiteRuleBtn.addEventListener("click", async () => {
+    siteRules.push({ id: createSiteRuleId(), pattern: "", disabled: false });
+    await saveRules();
+    renderRules();
+  });
+
+  // Keep the preset choices current while the preset editor is used
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === "local" && changes[CUSTOM_PRESETS_KEY]) {
+      customPresets = (changes[CUSTOM_PRESETS_KEY].newValue as CustomPreset[] | undefined) ?? [];
+      renderRules();
+    }
+  });
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { BUILT_IN_PRESETS, exportPresetFile, parsePresetFile, validateCustomPreset } from "./presets";
+
+const sharedPreset = { name: "Club", params: BUILT_IN_PRESETS.punchy, intensity: 80, glowWidth: 60 };
+
+describe("preset import", () => {
+  it("reads back an exported file with fresh IDs", () => {
+    const exported = exportPresetFile([{ id: "custom-old", ...sharedPreset }]);
+    const { presets, error } = parsePresetFile(exported);
+
+    expect(error).toBeUndefined();
+    expect(presets).toHaveLength(1);
+    expect(presets[0]).toMatchObject(sharedPreset);
+    expect(presets[0].id).toMatch(/^custom-/);
+    expect(presets[0].id).not.toBe("custom-old");
+  });
+
+  it("accepts a single preset object", () => {
+    const { presets } = parsePresetFile(JSON.stringify(sharedPreset));
+    expect(presets.map(({ name }) => name)).toEqual(["Club"]);
+  });
+
+  it("rejects files that aren't preset objects", () => {
+    for (const text of ["null", "[]", "42", '"preset"', "not json", '{"presets": "all"}']) {
+      const { presets, error } = parsePresetFile(text);
+      expect(presets).toEqual([]);
+      expect(error).toBeTruthy();
+    }
+    expect(parsePresetFile("[]").error).toBe("Not a valid preset file");
+  });
+
+  it("rejects newer file versions and empty files", () => {
+    expect(parsePresetFile(JSON.stringify({ version: 99, presets: [sharedPreset] })).error).toMatch(/version 99/);
+    expect(parsePresetFile(JSON.stringify({ version: 1, presets: [] })).error).toBe("File contains no presets");
+  });
+
+  it("rejects the whole file when one preset is invalid", () => {
+    const broken = { ...sharedPreset, name: "Broken", params: { ...sharedPreset.params, bassGain: "loud" } };
+    const { presets, error } = parsePresetFile(JSON.stringify({ version: 1, presets: [sharedPreset, broken] }));
+
+    expect(presets).toEqual([]);
+    expect(error).toBe('"Broken": bassGain must be a number');
+  });
+});
+
+describe("preset validation", () => {
+  it("checks mode, parameter ranges and percentages", () => {
+    expect(validateCustomPreset({ ...sharedPreset, params: { ...sharedPreset.params, mode: "lasers" } }).error).toBe(
+      '"Club": unknown mode "lasers"',
+    );
+    expect(validateCustomPreset({ ...sharedPreset, params: { ...sharedPreset.params, bassGain: 1000 } }).error).toMatch(
+      /bassGain must be between/,
+    );
+    expect(validateCustomPreset({ ...sharedPreset, intensity: 150 }).error).toMatch(/between 0 and 100/);
+    expect(validateCustomPreset({ ...sharedPreset, name: "  " }).error).toBe("Preset needs a name");
+  });
+
+  it("fills in missing optional fields", () => {
+    const { preset } = validateCustomPreset({ name: "  Minimal  ", params: BUILT_IN_PRESETS.chill });
+
+    expect(preset).toMatchObject({ name: "Minimal", intensity: 100, glowWidth: 100 });
+  });
+});
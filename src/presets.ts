@@ -0,0 +1,242 @@
+// PulseSynth Presets
+// Built-in and user-defined visual presets, shared by the renderer and popup
+
+// Visual modes (one visualizer each in src/visualizers)
+export type VisualMode = "edgeGlow" | "spectrumBars" | "cornerGlow" | "vignettePulse" | "oscilloscope" | "ambilight";
+
+// Preset parameters
+export interface PresetParams {
+  mode: VisualMode; // Which visual the shader draws
+  bassGain: number; // Bass intensity multiplier
+  bassReach: number; // How far bass pushes glow inward
+  hueSpeed: number; // Speed of hue rotation
+  shimmerAmp: number; // Shimmer intensity
+  shimmerSpeed: number; // Shimmer animation speed
+  beatResponse: number; // How hard the glow flashes on detected beats
+}
+
+// Numeric preset fields (everything except the mode)
+export type PresetNumericField = Exclude<keyof PresetParams, "mode">;
+
+// Editor ranges for numeric fields, also used to validate imported presets
+export const PRESET_FIELD_RANGES: Record<PresetNumericField, { label: string; min: number; max: number; step: number }> = {
+  bassGain: { label: "Bass Gain", min: 0, max: 1, step: 0.05 },
+  bassReach: { label: "Bass Reach", min: 0, max: 0.5, step: 0.01 },
+  hueSpeed: { label: "Hue Speed", min: 0, max: 0.2, step: 0.005 },
+  shimmerAmp: { label: "Shimmer Amount", min: 0, max: 0.5, step: 0.01 },
+  shimmerSpeed: { label: "Shimmer Speed", min: 0, max: 10, step: 0.5 },
+  beatResponse: { label: "Beat Response", min: 0, max: 1, step: 0.05 },
+};
+
+export const VISUAL_MODES: Record<VisualMode, string> = {
+  edgeGlow: "Edge Glow",
+  spectrumBars: "Spectrum Bars",
+  cornerGlow: "Corner Glow",
+  vignettePulse: "Vignette Pulse",
+  oscilloscope: "Oscilloscope",
+  ambilight: "Video Ambilight",
+};
+
+// Overlay mode setting: follow the active preset's mode, or force one
+export type VisualizerSetting = "preset" | VisualMode;
+
+// Screen edge the oscilloscope waveform is drawn along
+export type OscilloscopeEdge = "bottom" | "top" | "left" | "right";
+
+export const OSCILLOSCOPE_EDGES: Record<OscilloscopeEdge, string> = {
+  bottom: "Bottom",
+  top: "Top",
+  left: "Left",
+  right: "Right",
+};
+
+export function isVisualMode(value: string): value is VisualMode {
+  return Object.prototype.hasOwnProperty.call(VISUAL_MODES, value);
+}
+
+// Built-in preset names (read-only)
+export type BuiltInPresetName = "ambient" | "punchy" | "chill" | "spectrum";
+
+// Preset definitions
+export const BUILT_IN_PRESETS: Record<BuiltInPresetName, PresetParams> = {
+  ambient: {
+    mode: "edgeGlow",
+    bassGain: 0.3,
+    bassReach: 0.15,
+    hueSpeed: 0.02,
+    shimmerAmp: 0.1,
+    shimmerSpeed: 2.0,
+    beatResponse: 0.3,
+  },
+  punchy: {
+    mode: "edgeGlow",
+    bassGain: 0.6,
+    bassReach: 0.35,
+    hueSpeed: 0.04,
+    shimmerAmp: 0.3,
+    shimmerSpeed: 5.0,
+    beatResponse: 1.0,
+  },
+  chill: {
+    mode: "edgeGlow",
+    bassGain: 0.2,
+    bassReach: 0.1,
+    hueSpeed: 0.01,
+    shimmerAmp: 0.05,
+    shimmerSpeed: 1.0,
+    beatResponse: 0.15,
+  },
+  spectrum: {
+    mode: "spectrumBars",
+    bassGain: 0.4,
+    bassReach: 0.2,
+    hueSpeed: 0.03,
+    shimmerAmp: 0.1,
+    shimmerSpeed: 3.0,
+    beatResponse: 0.5,
+  },
+};
+
+export const BUILT_IN_PRESET_LABELS: Record<BuiltInPresetName, string> = {
+  ambient: "🌙 Ambient",
+  punchy: "⚡ Punchy",
+  chill: "🎷 Chill",
+  spectrum: "📊 Spectrum Bars",
+};
+
+// User-defined preset (stored in extension storage)
+export interface CustomPreset {
+  id: string;
+  name: string;
+  params: PresetParams;
+  intensity: number; // 0-100
+  glowWidth: number; // 0-100
+}
+
+// Storage key for custom presets
+export const CUSTOM_PRESETS_KEY = "pulseSynthCustomPresets";
+
+// Version written into exported preset files
+export const PRESET_FILE_VERSION = 1;
+
+const MAX_PRESET_NAME_LENGTH = 40;
+
+export function isBuiltInPreset(id: string): id is BuiltInPresetName {
+  return Object.prototype.hasOwnProperty.call(BUILT_IN_PRESETS, id);
+}
+
+// Generate a unique ID for a new custom preset
+export function createPresetId(): string {
+  return `custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Resolve a preset ID to its parameters, falling back to ambient for unknown IDs
+export function resolvePreset(id: string, customPresets: CustomPreset[]): PresetParams {
+  if (isBuiltInPreset(id)) {
+    return BUILT_IN_PRESETS[id];
+  }
+  return customPresets.find((preset) => preset.id === id)?.params ?? BUILT_IN_PRESETS.ambient;
+}
+
+// Validate an untrusted value as a custom preset; returns an error message on failure
+export function validateCustomPreset(value: unknown): { preset?: CustomPreset; error?: string } {
+  if (typeof value !== "object" || value === null) {
+    return { error: "Preset must be an object" };
+  }
+  const candidate = value as Record<string, unknown>;
+
+  if (typeof candidate.name !== "string" || candidate.name.trim() === "") {
+    return { error: "Preset needs a name" };
+  }
+  const name = candidate.name.trim().slice(0, MAX_PRESET_NAME_LENGTH);
+
+  const rawParams = candidate.params as Record<string, unknown> | undefined;
+  if (typeof rawParams !== "object" || rawParams === null) {
+    return { error: `"${name}": missing params` };
+  }
+
+  const mode = rawParams.mode ?? "edgeGlow";
+  if (typeof mode !== "string" || !isVisualMode(mode)) {
+    return { error: `"${name}": unknown mode "${String(mode)}"` };
+  }
+
+  const params = { mode } as PresetParams;
+  for (const field of Object.keys(PRESET_FIELD_RANGES) as PresetNumericField[]) {
+    const range = PRESET_FIELD_RANGES[field];
+    const fieldValue = rawParams[field];
+    if (typeof fieldValue !== "number" || !Number.isFinite(fieldValue)) {
+      return { error: `"${name}": ${field} must be a number` };
+    }
+    if (fieldValue < range.min || fieldValue > range.max) {
+      return { error: `"${name}": ${field} must be between ${range.min} and ${range.max}` };
+    }
+    params[field] = fieldValue;
+  }
+
+  const percent = (field: "intensity" | "glowWidth"): number | null => {
+    const fieldValue = candidate[field] ?? 100;
+    return typeof fieldValue === "number" && fieldValue >= 0 && fieldValue <= 100 ? Math.round(fieldValue) : null;
+  };
+  const intensity = percent("intensity");
+  const glowWidth = percent("glowWidth");
+  if (intensity === null || glowWidth === null) {
+    return { error: `"${name}": intensity and glowWidth must be between 0 and 100` };
+  }
+
+  const id = typeof candidate.id === "string" && candidate.id.startsWith("custom-") ? candidate.id : createPresetId();
+
+  return { preset: { id, name, params, intensity, glowWidth } };
+}
+
+// Serialize custom presets for sharing
+export function exportPresetFile(presets: CustomPreset[]): string {
+  return JSON.stringify(
+    {
+      version: PRESET_FILE_VERSION,
+      presets: presets.map(({ name, params, intensity, glowWidth }) => ({ name, params, intensity, glowWidth })),
+    },
+    null,
+    2,
+  );
+}
+
+// Parse and validate a shared preset file (a single preset or { version, presets: [...] })
+// Imported presets always get fresh IDs so they never overwrite existing ones
+export function parsePresetFile(text: string): { presets: CustomPreset[]; error?: string } {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { presets: [], error: "File is not valid JSON" };
+  }
+
+  // Anything but an object (null, an array, a number) can't be a preset or a preset file
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    return { presets: [], error: "Not a valid preset file" };
+  }
+
+  const file = data as { version?: unknown; presets?: unknown };
+  if (file.presets !== undefined && !Array.isArray(file.presets)) {
+    return { presets: [], error: "Not a valid preset file: presets must be a list" };
+  }
+  if (typeof file.version === "number" && file.version > PRESET_FILE_VERSION) {
+    return { presets: [], error: `Unsupported preset file version ${file.version}` };
+  }
+
+  const entries = Array.isArray(file.presets) ? file.presets : [data];
+  const presets: CustomPreset[] = [];
+
+  for (const entry of entries) {
+    const { preset, error } = validateCustomPreset({ ...(entry as object), id: undefined });
+    if (error || !preset) {
+      return { presets: [], error };
+    }
+    presets.push(preset);
+  }
+
+  if (presets.length === 0) {
+    return { presets: [], error: "File contains no presets" };
+  }
+
+  return { presets };
+}
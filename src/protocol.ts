@@ -0,0 +1,322 @@
+// PulseSynth Message Protocol
+// Every message between the popup, background, offscreen document and content scripts, with validation and
+// typed send/listen helpers. Changing a message here breaks the build in every context that uses it
+
+import type { AnalysisSettings, AudioBands } from "./analysis/analyzer";
+import type { MediaSessionInfo, MediaTransportAction } from "./mediaSession";
+import { isAudioFrame, type Recording, type ReplayStatus } from "./recording";
+
+// Bumped whenever a message changes shape; messages from another version are rejected
+export const PROTOCOL_VERSION = 2;
+
+// Audio source types supported by START_CAPTURE
+export type CaptureSourceType = "tab" | "microphone";
+
+// A source currently feeding the offscreen mix
+export interface CaptureSource {
+  id: string; // "tab:<tabId>" or "microphone:<deviceId>"
+  type: CaptureSourceType;
+  tabId: number | null;
+  deviceId?: string;
+  label: string;
+  weight: number; // Mix weight (0-1)
+}
+
+// Audio source the background asks the offscreen document to open
+export type AudioSource = { type: "tab"; streamId: string } | { type: "microphone"; deviceId?: string };
+
+export interface CaptureStatus {
+  isActive: boolean;
+  sources: CaptureSource[];
+  messageRate: number; // Messages per second posted to overlays
+}
+
+export interface CaptureResult {
+  success: boolean;
+  sourceId?: string;
+  error?: string;
+  sources?: CaptureSource[];
+}
+
+// Reported by the offscreen document so a restarted service worker can reconcile its state
+export interface OffscreenStatus {
+  isActive: boolean;
+  sourceIds: string[];
+  isRecording: boolean;
+}
+
+export interface RecordingStatus {
+  isRecording: boolean;
+  replay: ReplayStatus | null;
+}
+
+interface Result {
+  success: boolean;
+  error?: string;
+}
+
+// Payload and response of each message type
+type MessageSpec<Payload extends object, Response> = { payload: Payload; response: Response };
+type NoPayload = Record<never, never>;
+
+// Handled by the background (sent by the popup and the offscreen document)
+export type BackgroundMessages = {
+  GET_STATUS: MessageSpec<NoPayload, CaptureStatus>;
+  AUDIO_DATA: MessageSpec<{ data: AudioBands }, void>;
+  START_CAPTURE: MessageSpec<
+    { sourceType: CaptureSourceType; tabId?: number; deviceId?: string; weight?: number },
+    CaptureResult
+  >;
+  STOP_CAPTURE: MessageSpec<{ sourceId?: string }, CaptureResult>;
+  SET_SOURCE_WEIGHT: MessageSpec<{ sourceId: string; weight: number }, void>;
+  START_RECORDING: MessageSpec<NoPayload, Result>;
+  STOP_RECORDING: MessageSpec<NoPayload, { recording: Recording | null }>;
+  GET_RECORDING_STATUS: MessageSpec<NoPayload, RecordingStatus>;
+  REPLAY_LOAD: MessageSpec<{ recording: Recording; name: string }, ReplayStatus | null>;
+  REPLAY_PLAY: MessageSpec<NoPayload, ReplayStatus | null>;
+  REPLAY_PAUSE: MessageSpec<NoPayload, ReplayStatus | null>;
+  REPLAY_SET_LOOP: MessageSpec<{ loop: boolean }, ReplayStatus | null>;
+  REPLAY_STOP: MessageSpec<NoPayload, null>;
+  GET_MEDIA_SESSION: MessageSpec<NoPayload, MediaSessionInfo | null>;
+  MEDIA_ACTION: MessageSpec<{ action: MediaTransportAction }, void>;
+};
+
+// Handled by the offscreen document (sent by the background)
+export type OffscreenMessages = {
+  START_AUDIO_STREAM: MessageSpec<
+    { sourceId: string; source: AudioSource; weight: number; settings?: Partial<AnalysisSettings> },
+    Result
+  >;
+  STOP_AUDIO_STREAM: MessageSpec<{ sourceId?: string }, Result>; // No source = stop everything
+  GET_OFFSCREEN_STATUS: MessageSpec<NoPayload, OffscreenStatus>;
+  START_RECORDING: MessageSpec<NoPayload, Result>;
+  STOP_RECORDING: MessageSpec<NoPayload, { recording: Recording | null }>;
+  SET_SOURCE_WEIGHT: MessageSpec<{ sourceId: string; weight: number }, Result>;
+  UPDATE_ANALYSIS_SETTINGS: MessageSpec<{ settings: Partial<AnalysisSettings> }, Result>;
+};
+
+// Handled by the content script (one-off messages from the background)
+export type ContentMessages = {
+  PING: MessageSpec<NoPayload, { ok: boolean }>;
+  CONNECT_OVERLAY: MessageSpec<NoPayload, { ok: boolean }>; // Open the overlay port (only while streaming)
+  GET_MEDIA_SESSION: MessageSpec<NoPayload, MediaSessionInfo>;
+  MEDIA_ACTION: MessageSpec<{ action: MediaTransportAction }, { ok: boolean }>;
+};
+
+// Streamed to the content script over the overlay port (no responses)
+export type OverlayMessages = {
+  AUDIO_DATA: MessageSpec<{ data: AudioBands }, void>;
+  STOP_VISUALIZER: MessageSpec<NoPayload, void>;
+};
+
+interface MessageTargets {
+  background: BackgroundMessages;
+  offscreen: OffscreenMessages;
+  content: ContentMessages;
+  overlay: OverlayMessages;
+}
+
+export type MessageTarget = keyof MessageTargets;
+
+type MessageMap = Record<string, MessageSpec<object, unknown>>;
+
+// A message as sent: envelope, type and payload fields
+export type Message<M extends MessageMap, K extends keyof M = keyof M> = K extends keyof M
+  ? { protocol: number; target: MessageTarget; type: K } & M[K]["payload"]
+  : never;
+
+type Response<M extends MessageMap, K extends keyof M> = M[K]["response"];
+
+// Payload argument of the send helpers (optional when every field is)
+type PayloadArgs<P> = NoPayload extends P ? [payload?: P] : [payload: P];
+
+// Handlers for every message type of a target; async handlers respond when they settle
+export type MessageHandlers<M extends MessageMap> = {
+  [K in keyof M]: (
+    message: Message<M, K>,
+    sender: chrome.runtime.MessageSender,
+  ) => Response<M, K> | Promise<Response<M, K>>;
+};
+
+// Runtime checks, one per payload field (a new field without a check is a compile error)
+type FieldCheck = (value: unknown) => boolean;
+type MessageValidators<M extends MessageMap> = {
+  [K in keyof M]: { [F in keyof M[K]["payload"]]-?: FieldCheck };
+};
+
+const isString: FieldCheck = (value) => typeof value === "string";
+const isNumber: FieldCheck = (value) => typeof value === "number" && Number.isFinite(value);
+const isBoolean: FieldCheck = (value) => typeof value === "boolean";
+const isObject: FieldCheck = (value) => typeof value === "object" && value !== null && !Array.isArray(value);
+const optional =
+  (check: FieldCheck): FieldCheck =>
+  (value) =>
+    value === undefined || check(value);
+const oneOf =
+  (...values: unknown[]): FieldCheck =>
+  (value) =>
+    values.includes(value);
+
+const isCaptureSourceType = oneOf("tab", "microphone");
+const isMediaAction = oneOf("playpause", "nexttrack", "previoustrack");
+const isRecording: FieldCheck = (value) => isObject(value) && Array.isArray((value as Recording).frames);
+const isAudioSource: FieldCheck = (value) => {
+  const source = value as AudioSource;
+  return (
+    isObject(value) &&
+    ((source.type === "tab" && isString(source.streamId)) ||
+      (source.type === "microphone" && optional(isString)(source.deviceId)))
+  );
+};
+
+const validators: { [T in MessageTarget]: MessageValidators<MessageTargets[T]> } = {
+  background: {
+    GET_STATUS: {},
+    AUDIO_DATA: { data: isAudioFrame },
+    START_CAPTURE: {
+      sourceType: isCaptureSourceType,
+      tabId: optional(isNumber),
+      deviceId: optional(isString),
+      weight: optional(isNumber),
+    },
+    STOP_CAPTURE: { sourceId: optional(isString) },
+    SET_SOURCE_WEIGHT: { sourceId: isString, weight: isNumber },
+    START_RECORDING: {},
+    STOP_RECORDING: {},
+    GET_RECORDING_STATUS: {},
+    REPLAY_LOAD: { recording: isRecording, name: isString },
+    REPLAY_PLAY: {},
+    REPLAY_PAUSE: {},
+    REPLAY_SET_LOOP: { loop: isBoolean },
+    REPLAY_STOP: {},
+    GET_MEDIA_SESSION: {},
+    MEDIA_ACTION: { action: isMediaAction },
+  },
+  offscreen: {
+    START_AUDIO_STREAM: {
+      sourceId: isString,
+      source: isAudioSource,
+      weight: isNumber,
+      settings: optional(isObject),
+    },
+    STOP_AUDIO_STREAM: { sourceId: optional(isString) },
+    GET_OFFSCREEN_STATUS: {},
+    START_RECORDING: {},
+    STOP_RECORDING: {},
+    SET_SOURCE_WEIGHT: { sourceId: isString, weight: isNumber },
+    UPDATE_ANALYSIS_SETTINGS: { settings: isObject },
+  },
+  content: {
+    PING: {},
+    CONNECT_OVERLAY: {},
+    GET_MEDIA_SESSION: {},
+    MEDIA_ACTION: { action: isMediaAction },
+  },
+  overlay: {
+    AUDIO_DATA: { data: isAudioFrame },
+    STOP_VISUALIZER: {},
+  },
+};
+
+// Wrap a payload in the envelope
+function createMessage<T extends MessageTarget, K extends keyof MessageTargets[T] & string>(
+  target: T,
+  type: K,
+  payload: object = {},
+): Message<MessageTargets[T], K> {
+  return { ...payload, protocol: PROTOCOL_VERSION, target, type } as Message<MessageTargets[T], K>;
+}
+
+// Check an incoming message; null when it isn't addressed to this target, logged when it's invalid
+export function readMessage<T extends MessageTarget>(target: T, raw: unknown): Message<MessageTargets[T]> | null {
+  const message = raw as Partial<Message<MessageMap>> | null;
+  if (typeof message !== "object" || message === null || message.target !== target) {
+    return null;
+  }
+
+  const reject = (reason: string) => {
+    console.warn(`[PulseSynth:Protocol] Rejected ${target} message (${reason}):`, message.type);
+    return null;
+  };
+
+  if (message.protocol !== PROTOCOL_VERSION) {
+    return reject(`protocol ${String(message.protocol)}, expected ${PROTOCOL_VERSION}`);
+  }
+
+  const fields = (validators[target] as Record<string, Record<string, FieldCheck>>)[String(message.type)];
+  if (!fields) {
+    return reject("unknown type");
+  }
+  for (const [field, check] of Object.entries(fields)) {
+    if (!check((message as Record<string, unknown>)[field])) {
+      return reject(`invalid ${field}`);
+    }
+  }
+
+  return message as Message<MessageTargets[T]>;
+}
+
+// onMessage listener that validates messages for a target and routes them to their handler
+export function createMessageListener<T extends "background" | "offscreen" | "content">(
+  target: T,
+  handlers: MessageHandlers<MessageTargets[T]>,
+) {
+  return (raw: unknown, sender: chrome.runtime.MessageSender, sendResponse: (response?: unknown) => void) => {
+    const message = readMessage(target, raw);
+    if (!message) return false;
+
+    const handler = handlers[message.type] as (message: unknown, sender: chrome.runtime.MessageSender) => unknown;
+    const response = handler(message, sender);
+    if (response instanceof Promise) {
+      response.then(sendResponse, (error) => {
+        console.error(`[PulseSynth:Protocol] ${target} handler for ${String(message.type)} failed:`, error);
+        sendResponse(undefined);
+      });
+      return true; // Will respond asynchronously
+    }
+
+    // Respond even without a result so the sender's promise settles
+    sendResponse(response);
+    return false;
+  };
+}
+
+// Port listener for overlay messages
+export function createOverlayListener(handlers: MessageHandlers<OverlayMessages>) {
+  return (raw: unknown) => {
+    const message = readMessage("overlay", raw);
+    if (message) {
+      (handlers[message.type] as (message: unknown) => void)(message);
+    }
+  };
+}
+
+export function sendToBackground<K extends keyof BackgroundMessages & string>(
+  type: K,
+  ...[payload]: PayloadArgs<BackgroundMessages[K]["payload"]>
+): Promise<Response<BackgroundMessages, K>> {
+  return chrome.runtime.sendMessage(createMessage("background", type, payload));
+}
+
+export function sendToOffscreen<K extends keyof OffscreenMessages & string>(
+  type: K,
+  ...[payload]: PayloadArgs<OffscreenMessages[K]["payload"]>
+): Promise<Response<OffscreenMessages, K>> {
+  return chrome.runtime.sendMessage(createMessage("offscreen", type, payload));
+}
+
+// Content scripts only run in the top frame
+export function sendToContent<K extends keyof ContentMessages & string>(
+  tabId: number,
+  type: K,
+  ...[payload]: PayloadArgs<ContentMessages[K]["payload"]>
+): Promise<Response<ContentMessages, K>> {
+  return chrome.tabs.sendMessage(tabId, createMessage("content", type, payload), { frameId: 0 });
+}
+
+export function createOverlayMessage<K extends keyof OverlayMessages & string>(
+  type: K,
+  ...[payload]: PayloadArgs<OverlayMessages[K]["payload"]>
+): Message<OverlayMessages, K> {
+  return createMessage("overlay", type, payload);
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { QUALITY_SCALES, createQualityController } from "./quality";
+
+const BUDGET_MS = 1000 / 60;
+
+// Feed frames of a fixed length for a while; returns the scale afterwards
+function run(frameTimeMs: number, seconds = 20, quality = createQualityController()) {
+  for (let now = 0; now < seconds * 1000; now += frameTimeMs) {
+    quality.recordFrame(frameTimeMs, BUDGET_MS, now);
+  }
+  return quality.scale;
+}
+
+describe("auto quality", () => {
+  it("keeps its scale while frames run at budget", () => {
+    expect(run(BUDGET_MS)).toBe(QUALITY_SCALES.balanced);
+    // Slightly over or under is still treated as on budget
+    expect(run(BUDGET_MS * 1.1)).toBe(QUALITY_SCALES.balanced);
+    expect(run(BUDGET_MS * 0.9)).toBe(QUALITY_SCALES.balanced);
+  });
+
+  it("lowers the scale when frames run over budget", () => {
+    expect(run(BUDGET_MS * 2)).toBe(QUALITY_SCALES.low);
+  });
+
+  it("raises the scale only when frames are clearly under budget", () => {
+    expect(run(BUDGET_MS / 2)).toBe(QUALITY_SCALES.high);
+  });
+
+  it("leaves fixed quality levels alone", () => {
+    const quality = createQualityController();
+    quality.setQuality("high");
+
+    expect(run(BUDGET_MS * 3, 20, quality)).toBe(QUALITY_SCALES.high);
+  });
+});
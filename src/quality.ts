@@ -0,0 +1,88 @@
+// PulseSynth Render Quality
+// Internal render resolution and frame-rate cap, with an auto mode that adapts to frame time
+
+// Quality setting: a fixed resolution scale, or "auto" to adapt within the scale range
+export type QualitySetting = "auto" | "high" | "balanced" | "low";
+
+export const QUALITY_LEVELS: Record<QualitySetting, string> = {
+  auto: "Auto",
+  high: "High",
+  balanced: "Balanced",
+  low: "Low (battery saver)",
+};
+
+// Internal resolution as a fraction of CSS pixels (the glow is a soft gradient, upscaling is invisible)
+export const QUALITY_SCALES: Record<Exclude<QualitySetting, "auto">, number> = {
+  high: 1,
+  balanced: 0.5,
+  low: 0.25,
+};
+
+// Frame-rate caps offered in the popup (0 = display refresh rate)
+export const FRAME_RATE_CAPS: { value: number; label: string }[] = [
+  { value: 30, label: "30 FPS" },
+  { value: 60, label: "60 FPS" },
+  { value: 0, label: "Unlimited" },
+];
+
+// Auto quality: how often the frame time is checked, and how far the scale moves each time
+const AUTO_CHECK_INTERVAL_MS = 2000;
+const AUTO_SCALE_DOWN = 0.75;
+const AUTO_SCALE_UP = 1.1;
+const AUTO_START_SCALE = QUALITY_SCALES.balanced;
+// Over budget by this factor lowers the scale; only clearly under budget raises it again
+const OVER_BUDGET = 1.2;
+const UNDER_BUDGET = 0.8;
+const FRAME_TIME_SMOOTHING = 0.1;
+
+export interface QualityController {
+  readonly scale: number;
+  setQuality(quality: QualitySetting): void;
+  // Record the time since the previous drawn frame; returns true when the scale changed
+  recordFrame(frameTimeMs: number, budgetMs: number, now: number): boolean;
+  reset(): void;
+}
+
+export function createQualityController(): QualityController {
+  let quality: QualitySetting = "auto";
+  let scale = AUTO_START_SCALE;
+  let averageFrameTime = 0;
+  let lastCheck = 0;
+
+  return {
+    get scale() {
+      return scale;
+    },
+
+    setQuality(next: QualitySetting) {
+      quality = next;
+      scale = next === "auto" ? AUTO_START_SCALE : (QUALITY_SCALES[next] ?? AUTO_START_SCALE);
+      averageFrameTime = 0;
+    },
+
+    recordFrame(frameTimeMs: number, budgetMs: number, now: number): boolean {
+      if (quality !== "auto") return false;
+
+      averageFrameTime =
+        averageFrameTime === 0
+          ? frameTimeMs
+          : averageFrameTime + (frameTimeMs - averageFrameTime) * FRAME_TIME_SMOOTHING;
+      if (now - lastCheck < AUTO_CHECK_INTERVAL_MS) return false;
+      lastCheck = now;
+
+      const previous = scale;
+      if (averageFrameTime > budgetMs * OVER_BUDGET) {
+        scale = Math.max(QUALITY_SCALES.low, scale * AUTO_SCALE_DOWN);
+      } else if (averageFrameTime < budgetMs * UNDER_BUDGET) {
+        scale = Math.min(QUALITY_SCALES.high, scale * AUTO_SCALE_UP);
+      }
+      return scale !== previous;
+    },
+
+    reset() {
+      averageFrameTime = 0;
+      lastCheck = 0;
+      if (quality === "auto") scale = AUTO_START_SCALE;
+    },
+  };
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { RECORDING_FILE_VERSION, exportRecordingFile, parseRecordingFile, type Recording } from "./recording";
+import type { AudioFrame } from "./visualizers/types";
+
+const frame = (energy: number): AudioFrame => ({
+  bass: energy,
+  mids: energy,
+  highs: energy,
+  energy,
+  beat: false,
+  beatStrength: 0,
+  spectrum: [0, 128, 255],
+  waveform: [128, 128],
+  bpm: 0,
+  beatPhase: 0,
+});
+
+const recording: Recording = {
+  version: RECORDING_FILE_VERSION,
+  recordedAt: "2026-01-01T00:00:00.000Z",
+  durationMs: 32,
+  frames: [
+    { t: 0, data: frame(0.1) },
+    { t: 16, data: frame(0.5) },
+    { t: 32, data: frame(0.9) },
+  ],
+};
+
+describe("recording files", () => {
+  it("reads back an exported recording", () => {
+    expect(parseRecordingFile(exportRecordingFile(recording))).toEqual({ recording });
+  });
+
+  it("takes the duration from the last frame", () => {
+    const { recording: parsed } = parseRecordingFile(JSON.stringify({ ...recording, durationMs: 99999 }));
+    expect(parsed!.durationMs).toBe(32);
+  });
+
+  it("rejects files that aren't recordings", () => {
+    expect(parseRecordingFile("not json").error).toBe("File is not valid JSON");
+    for (const text of ["null", "[]", '{"frames": "none"}']) {
+      expect(parseRecordingFile(text).error).toBe("File is not a PulseSynth recording");
+    }
+    expect(parseRecordingFile(JSON.stringify({ ...recording, version: 99 })).error).toMatch(/version 99/);
+    expect(parseRecordingFile(JSON.stringify({ ...recording, frames: [] })).error).toBe(
+      "Recording contains no frames",
+    );
+  });
+
+  it("rejects out-of-order or malformed frames", () => {
+    const reversed = { ...recording, frames: [...recording.frames].reverse() };
+    const missingField = { ...recording, frames: [{ t: 0, data: { ...frame(0), beat: 1 } }] };
+
+    expect(parseRecordingFile(JSON.stringify(reversed)).error).toBe("Recording contains an invalid frame");
+    expect(parseRecordingFile(JSON.stringify(missingField)).error).toBe("Recording contains an invalid frame");
+  });
+});
@@ -0,0 +1,238 @@
+// PulseSynth Recordings
+// Recorded analysis sessions (timestamped AUDIO_DATA frames) and the player that replays them
+
+import type { AudioFrame } from "./visualizers/types";
+
+export const RECORDING_FILE_VERSION = 1;
+
+// Recordings stop by themselves after this long (~60 frames a second at ~850 bytes each: roughly 15 MB of JSON)
+export const MAX_RECORDING_MS = 5 * 60 * 1000;
+
+export interface RecordedFrame {
+  t: number; // ms since the recording started
+  data: AudioFrame;
+}
+
+export interface Recording {
+  version: number;
+  recordedAt: string; // ISO date
+  durationMs: number;
+  frames: RecordedFrame[];
+}
+
+// Replay state reported to the popup
+export interface ReplayStatus {
+  name: string;
+  durationMs: number;
+  positionMs: number;
+  isPlaying: boolean;
+  loop: boolean;
+}
+
+// Playback tick (the offscreen document streams at ~60fps too)
+const REPLAY_INTERVAL_MS = 16;
+
+// Validate one frame of audio data (only the fields every consumer reads); also checks AUDIO_DATA messages
+export function isAudioFrame(value: unknown): value is AudioFrame {
+  const frame = value as Record<string, unknown> | null;
+  return (
+    typeof frame === "object" &&
+    frame !== null &&
+    ["bass", "mids", "highs", "energy", "beatStrength", "bpm", "beatPhase"].every(
+      (field) => typeof frame[field] === "number",
+    ) &&
+    typeof frame.beat === "boolean" &&
+    Array.isArray(frame.spectrum) &&
+    Array.isArray(frame.waveform)
+  );
+}
+
+// Serialize a recording for download
+export function exportRecordingFile(recording: Recording): string {
+  return JSON.stringify(recording);
+}
+
+// Parse and validate a recording file
+export function parseRecordingFile(text: string): { recording?: Recording; error?: string } {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { error: "File is not valid JSON" };
+  }
+
+  const file = data as Partial<Recording> | null;
+  if (typeof file !== "object" || file === null || !Array.isArray(file.frames)) {
+    return { error: "File is not a PulseSynth recording" };
+  }
+  if (typeof file.version !== "number" || file.version > RECORDING_FILE_VERSION) {
+    return { error: `Unsupported recording version ${String(file.version)}` };
+  }
+
+  let previousTime = -1;
+  for (const frame of file.frames) {
+    if (typeof frame?.t !== "number" || frame.t < previousTime || !isAudioFrame(frame.data)) {
+      return { error: "Recording contains an invalid frame" };
+    }
+    previousTime = frame.t;
+  }
+  if (file.frames.length === 0) {
+    return { error: "Recording contains no frames" };
+  }
+
+  return {
+    recording: {
+      version: file.version,
+      recordedAt: typeof file.recordedAt === "string" ? file.recordedAt : "",
+      durationMs: previousTime,
+      frames: file.frames,
+    },
+  };
+}
+
+// Collects frames as they are analysed; stops by itself at MAX_RECORDING_MS
+export function createRecorder() {
+  let frames: RecordedFrame[] = [];
+  let startedAt = 0;
+  let recordedAt = "";
+  let isRecording = false;
+
+  return {
+    get isRecording() {
+      return isRecording;
+    },
+
+    start() {
+      frames = [];
+      startedAt = performance.now();
+      recordedAt = new Date().toISOString();
+      isRecording = true;
+    },
+
+    record(data: AudioFrame) {
+      if (!isRecording) return;
+
+      const t = Math.round(performance.now() - startedAt);
+      if (t > MAX_RECORDING_MS) {
+        isRecording = false;
+        return;
+      }
+      frames.push({ t, data });
+    },
+
+    // Finish and hand over the recording (null when nothing was captured)
+    stop(): Recording | null {
+      isRecording = false;
+      const recording =
+        frames.length > 0
+          ? {
+              version: RECORDING_FILE_VERSION,
+              recordedAt,
+              durationMs: frames[frames.length - 1].t,
+              frames,
+            }
+          : null;
+      frames = [];
+      return recording;
+    },
+  };
+}
+
+interface ReplayerOptions {
+  onFrame: (data: AudioFrame) => void;
+  onEnd: () => void; // Reached the end without looping
+}
+
+// Plays a loaded recording back in real time through onFrame
+export function createReplayer(options: ReplayerOptions) {
+  let recording: Recording | null = null;
+  let name = "";
+  let loop = false;
+  let intervalId: ReturnType<typeof setInterval> | null = null;
+
+  // Position is kept as a wall-clock anchor while playing
+  let positionMs = 0;
+  let playStartedAt = 0;
+  let playStartPosition = 0;
+  let frameIndex = 0;
+
+  function tick() {
+    if (!recording) return;
+
+    positionMs = playStartPosition + (performance.now() - playStartedAt);
+
+    // Emit the latest frame at or before the position (frames skipped by a slow tick are dropped)
+    let next = frameIndex;
+    while (next < recording.frames.length && recording.frames[next].t <= positionMs) {
+      next++;
+    }
+    if (next > frameIndex) {
+      frameIndex = next;
+      options.onFrame(recording.frames[next - 1].data);
+    }
+
+    if (positionMs > recording.durationMs) {
+      if (!loop) {
+        pause();
+        positionMs = 0;
+        frameIndex = 0;
+        options.onEnd();
+        return;
+      }
+      // Wrap around and restart the frame search from the top
+      positionMs %= Math.max(recording.durationMs, 1);
+      playStartPosition = positionMs;
+      playStartedAt = performance.now();
+      frameIndex = 0;
+    }
+  }
+
+  function pause() {
+    if (intervalId !== null) {
+      clearInterval(intervalId);
+      intervalId = null;
+    }
+  }
+
+  return {
+    load(file: Recording, fileName: string) {
+      pause();
+      recording = file;
+      name = fileName;
+      positionMs = 0;
+      frameIndex = 0;
+    },
+
+    play() {
+      if (!recording || intervalId !== null) return;
+
+      playStartPosition = positionMs;
+      playStartedAt = performance.now();
+      intervalId = setInterval(tick, REPLAY_INTERVAL_MS);
+    },
+
+    pause,
+
+    setLoop(enabled: boolean) {
+      loop = enabled;
+    },
+
+    unload() {
+      pause();
+      recording = null;
+    },
+
+    get isLoaded() {
+      return recording !== null;
+    },
+
+    get isPlaying() {
+      return intervalId !== null;
+    },
+
+    getStatus(): ReplayStatus | null {
+      if (!recording) return null;
+      return { name, durationMs: recording.durationMs, positionMs, isPlaying: intervalId !== null, loop };
+    },
+  };
+}
@@ -1,187 +1,167 @@
 // PulseSynth Renderer
-// Three.js WebGL overlay for audio-reactive glow
+// WebGL2 overlay for audio-reactive glow; draws the active visualizer from the registry
+
+import {
+  BUILT_IN_PRESETS,
+  isVisualMode,
+  resolvePreset,
+  type CustomPreset,
+  type OscilloscopeEdge,
+  type PresetParams,
+  type VisualMode,
+} from "./presets";
+import { MAX_PALETTE_STOPS, hexToRgb, resolvePaletteStops } from "./palettes";
+import { createQualityController } from "./quality";
+import { createFlashLimiter, type Modulation } from "./safety";
+import type { VideoEdgeColors } from "./videoSampler";
+import { createVisualizer, type AudioFrame, type Visualizer } from "./visualizers";
+import { createFallbackGlow, type FallbackGlow } from "./fallbackGlow";
+import { defaultSettings, type OverlaySettings } from "./settings";
+import { createDataTexture, createGLContext, type GLContext, type Uniforms } from "./webgl";
+
+// Overlay element: the WebGL canvas, or the CSS fallback glow when WebGL2 is unavailable
+let overlay: HTMLElement | null = null;
+let gl: GLContext | null = null;
+let fallback: FallbackGlow | null = null;
+let animationId: number | null = null;
 
-import * as THREE from "three";
+// Loop state: started by the content script, but paused while the tab is hidden or the audio is silent
+let loopRequested = false;
+let pausedForSilence = false;
+let startTime = 0;
+let lastFrameTime = 0; // Frame-rate cap clock, advanced in whole frame intervals
+let lastDrawTime = 0; // When the previous frame was drawn (for animation deltas)
+let silentSince: number | null = null;
+const SILENCE_PAUSE_MS = 2000;
+const SILENCE_THRESHOLD = 0.02; // Matches the shader's silence cut-off
+// Frames may arrive this fraction of an interval early and still count for the cap
+const FRAME_CAP_TOLERANCE = 0.2;
+
+// Internal resolution scale (adapted to frame time in auto quality)
+const qualityController = createQualityController();
+
+// Active visualizer (swapped at runtime without re-creating the canvas)
+let visualizer: Visualizer | null = null;
+let activeMode: VisualMode | null = null;
+
+// Waveform samples uploaded as a 1-row data texture (must match WAVEFORM_SAMPLE_COUNT in offscreen.ts)
+const WAVEFORM_SAMPLE_COUNT = 128;
+const waveformPixels = new Uint8Array(WAVEFORM_SAMPLE_COUNT).fill(128);
+const waveformTexture = createDataTexture(waveformPixels, WAVEFORM_SAMPLE_COUNT, 1);
+
+// Oscilloscope edge as a shader index
+const OSCILLOSCOPE_EDGE_INDEX: Record<OscilloscopeEdge, number> = {
+  bottom: 0,
+  top: 1,
+  left: 2,
+  right: 3,
+};
 
-let renderer: THREE.WebGLRenderer | null = null;
-let scene: THREE.Scene | null = null;
-let camera: THREE.OrthographicCamera | null = null;
-let material: THREE.ShaderMaterial | null = null;
-let animationId: number | null = null;
+// Uniforms shared by every visualizer; values are updated in place
+const uniforms = {
+  uTime: { value: 0 },
+  uBass: { value: 0 },
+  uMids: { value: 0 },
+  uHighs: { value: 0 },
+  uEnergy: { value: 0 },
+  uIntensity: { value: 1.0 },
+  uGlowWidth: { value: 1.0 },
+  uResolution: { value: new Float32Array([window.innerWidth, window.innerHeight]) },
+  // Preset uniforms (default: ambient)
+  uBassGain: { value: BUILT_IN_PRESETS.ambient.bassGain },
+  uBassReach: { value: BUILT_IN_PRESETS.ambient.bassReach },
+  uHueSpeed: { value: BUILT_IN_PRESETS.ambient.hueSpeed },
+  uShimmerAmp: { value: BUILT_IN_PRESETS.ambient.shimmerAmp },
+  uShimmerSpeed: { value: BUILT_IN_PRESETS.ambient.shimmerSpeed },
+  uBeatResponse: { value: BUILT_IN_PRESETS.ambient.beatResponse },
+  uBeat: { value: 0 },
+  uBpm: { value: 0 },
+  uBeatPhase: { value: 0 },
+  uTempoTime: { value: 0 },
+  uWaveform: { value: waveformTexture },
+  uScopeEdge: { value: OSCILLOSCOPE_EDGE_INDEX.bottom },
+  uPalette: { value: new Float32Array(MAX_PALETTE_STOPS * 3) },
+  uPaletteSize: { value: 0 },
+  uPaletteMix: { value: 0 },
+  uVideoEdges: { value: new Float32Array(12) },
+  uVideoMix: { value: 0 },
+} satisfies Uniforms;
 
 // Audio data from content script
-let audioData = {
+let audioData: AudioFrame = {
   bass: 0,
   mids: 0,
   highs: 0,
   energy: 0,
+  beat: false,
+  beatStrength: 0,
+  spectrum: [],
+  waveform: [],
+  bpm: 0,
+  beatPhase: 0,
 };
 
-// Preset type definition
-export type PresetName = "ambient" | "punchy" | "chill";
+// Tempo sync: beat phase is extrapolated between audio messages
+let beatPhaseReceivedAt = 0;
+let tempoTime = 0; // Musical clock: wall-clock speed at the reference tempo, scaled by BPM
+const TEMPO_REFERENCE_BPM = 120; // Tempo at which hue cycles at its base speed
 
-// Preset parameters
-interface PresetParams {
-  bassGain: number; // Bass intensity multiplier
-  bassReach: number; // How far bass pushes glow inward
-  hueSpeed: number; // Speed of hue rotation
-  shimmerAmp: number; // Shimmer intensity
-  shimmerSpeed: number; // Shimmer animation speed
-}
+// Beat pulse envelope: jumps to beat strength on each hit, decays exponentially
+let beatPulse = 0;
+const BEAT_DECAY_PER_SECOND = 6.0;
 
-// Preset definitions
-export const PRESETS: Record<PresetName, PresetParams> = {
-  ambient: {
-    bassGain: 0.3,
-    bassReach: 0.15,
-    hueSpeed: 0.02,
-    shimmerAmp: 0.1,
-    shimmerSpeed: 2.0,
-  },
-  punchy: {
-    bassGain: 0.6,
-    bassReach: 0.35,
-    hueSpeed: 0.04,
-    shimmerAmp: 0.3,
-    shimmerSpeed: 5.0,
-  },
-  chill: {
-    bassGain: 0.2,
-    bassReach: 0.1,
-    hueSpeed: 0.01,
-    shimmerAmp: 0.05,
-    shimmerSpeed: 1.0,
-  },
-};
+// Ambilight: sampled video edge colours, eased towards so scene cuts fade rather than jump
+const VIDEO_COLOR_SECONDS = 0.3;
+const videoTarget = new Float32Array(12);
+let hasVideo = false;
 
-// Settings from popup
-let settings = {
-  intensity: 100,
-  glowWidth: 100,
-  preset: "ambient" as PresetName,
-};
+// Shimmer amount from the active preset (scaled down by the flash limiter)
+let presetShimmerAmp = BUILT_IN_PRESETS.ambient.shimmerAmp;
 
-// Vertex shader - simple fullscreen quad
-const vertexShader = `
-  varying vec2 vUv;
-  void main() {
-    vUv = uv;
-    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
-  }
-`;
-
-// Fragment shader - audio-reactive edge glow with preset support
-const fragmentShader = `
-  varying vec2 vUv;
-  uniform float uTime;
-  uniform float uBass;
-  uniform float uMids;
-  uniform float uHighs;
-  uniform float uEnergy;
-  uniform float uIntensity;
-  uniform float uGlowWidth;
-  uniform vec2 uResolution;
-  
-  // Preset uniforms
-  uniform float uBassGain;
-  uniform float uBassReach;
-  uniform float uHueSpeed;
-  uniform float uShimmerAmp;
-  uniform float uShimmerSpeed;
-
-  // Pseudo-random for shimmer
-  float hash(vec2 p) {
-    return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453);
-  }
+// Rough overlay brightness from the values that drive every visualizer's alpha
+function estimateBrightness(modulation: Modulation): number {
+  const bass = modulation.bass * uniforms.uBassGain.value;
+  const beat = modulation.beat * uniforms.uBeatResponse.value;
+  return uniforms.uIntensity.value * (0.5 + modulation.energy * 0.4 + bass * 0.5 + beat * 0.35);
+}
 
-  // HSV to RGB conversion
-  vec3 hsv2rgb(vec3 c) {
-    vec4 K = vec4(1.0, 2.0 / 3.0, 1.0 / 3.0, 3.0);
-    vec3 p = abs(fract(c.xxx + K.xyz) * 6.0 - K.www);
-    return c.z * mix(K.xxx, clamp(p - K.xxx, 0.0, 1.0), c.y);
-  }
+// Photosensitivity safety: every frame passes through the flash limiter
+const flashLimiter = createFlashLimiter(estimateBrightness);
+const reducedMotionQuery = window.matchMedia("(prefers-reduced-motion: reduce)");
 
-  void main() {
-    vec2 uv = vUv;
-    
-    // Calculate distance from edges (0 at edges, 1 at center)
-    float edgeDistX = min(uv.x, 1.0 - uv.x) * 2.0;
-    float edgeDistY = min(uv.y, 1.0 - uv.y) * 2.0;
-    float edgeDist = min(edgeDistX, edgeDistY);
-    
-    // Dynamic glow width based on energy and user setting
-    float baseGlowWidth = 0.1 * uGlowWidth;
-    float glowWidth = baseGlowWidth + uEnergy * 0.15 * uGlowWidth;
-    
-    // Bass-driven inward reach (controlled by preset)
-    float bassEffect = uBass * uBassGain;
-    float bassReach = bassEffect * uBassReach;
-    float bassPulse = 1.0 + bassEffect;
-    float glow = 1.0 - smoothstep(0.0, (glowWidth + bassReach) * bassPulse, edgeDist);
-    
-    // Audio-reactive color with preset-controlled hue speed
-    float hue = 0.75 - uBass * 0.25 + uHighs * 0.15;
-    hue = mod(hue + uTime * uHueSpeed, 1.0);
-    
-    float saturation = 0.7 + uMids * 0.3;
-    float brightness = 0.8 + uEnergy * 0.2;
-    
-    vec3 glowColor = hsv2rgb(vec3(hue, saturation, brightness));
-    
-    // Shimmer effect (controlled by preset)
-    vec2 shimmerCoord = uv * 15.0 + uTime * uShimmerSpeed;
-    float shimmer = hash(floor(shimmerCoord));
-    shimmer = (shimmer - 0.5) * uHighs * uShimmerAmp;
-    float flicker = sin(uTime * (5.0 + uHighs * 10.0)) * 0.5 + 0.5;
-    shimmer *= flicker * glow; // Only shimmer in glow areas
-    
-    // Breathing animation
-    float breathe = sin(uTime * 2.0) * 0.1 + 0.9;
-    
-    // Intensity based on energy and user setting
-    float intensity = (0.4 + uEnergy * 0.4) * uIntensity;
-    
-    // Final alpha with shimmer
-    float alpha = glow * intensity * breathe + shimmer * uIntensity;
-    
-    // Inner glow on bass hits (scaled by preset bass gain)
-    float innerGlow = smoothstep(0.3, 0.0, edgeDist) * bassEffect * 0.2 * uIntensity;
-    alpha += innerGlow;
-    
-    // Silence threshold - completely clear visuals when no audio
-    float audioSum = uBass + uMids + uHighs + uEnergy;
-    float silence = 1.0 - step(audioSum, 0.02);
-    alpha *= silence;
-    
-    alpha = clamp(alpha, 0.0, 0.9);
-    
-    gl_FragColor = vec4(glowColor, alpha);
-  }
-`;
+// User-defined presets, resolved by ID alongside the built-ins
+let customPresets: CustomPreset[] = [];
+
+// Settings from popup
+let settings: OverlaySettings = { ...defaultSettings };
 
-export function initRenderer(): HTMLCanvasElement | null {
+// Safe mode is on when locked by the user, or when the system asks for reduced motion
+function isSafeModeActive(): boolean {
+  return settings.safeMode === "locked" || reducedMotionQuery.matches;
+}
+
+export function initRenderer(): HTMLElement | null {
   // Check if already initialized
-  if (renderer) {
+  if (overlay) {
     console.log("[PulseSynth:Renderer] Already initialized.");
-    return renderer.domElement;
+    return overlay;
   }
 
   try {
-    // Create WebGL renderer
-    renderer = new THREE.WebGLRenderer({
-      alpha: true, // Transparent background
-      antialias: true,
-      premultipliedAlpha: false,
-    });
-
-    renderer.setSize(window.innerWidth, window.innerHeight);
-    renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
-    renderer.setClearColor(0x000000, 0); // Transparent
+    // Create the WebGL2 context, or fall back to a CSS glow without visualizer modes
+    gl = createGLContext();
+    if (gl) {
+      overlay = gl.canvas;
+      applyRenderScale();
+    } else {
+      console.warn("[PulseSynth:Renderer] WebGL2 unavailable, using the CSS fallback glow.");
+      fallback = createFallbackGlow();
+      overlay = fallback.element;
+    }
 
-    // Style canvas for overlay
-    const canvas = renderer.domElement;
-    canvas.id = "pulsesynth-overlay";
-    canvas.style.cssText = `
+    // Style the overlay element
+    overlay.id = "pulsesynth-overlay";
+    overlay.style.cssText = `
       position: fixed !important;
       top: 0 !important;
       left: 0 !important;
@@ -191,144 +171,310 @@ export function initRenderer(): HTMLCanvasElement | null {
       z-index: 2147483647 !important;
     `;
 
-    // Create scene
-    scene = new THREE.Scene();
-
-    // Create orthographic camera for 2D rendering
-    camera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1);
-
-    // Create fullscreen quad
-    const geometry = new THREE.PlaneGeometry(2, 2);
-
-    // Create shader material
-    material = new THREE.ShaderMaterial({
-      vertexShader,
-      fragmentShader,
-      uniforms: {
-        uTime: { value: 0 },
-        uBass: { value: 0 },
-        uMids: { value: 0 },
-        uHighs: { value: 0 },
-        uEnergy: { value: 0 },
-        uIntensity: { value: 1.0 },
-        uGlowWidth: { value: 1.0 },
-        uResolution: { value: new THREE.Vector2(window.innerWidth, window.innerHeight) },
-        // Preset uniforms (default: ambient)
-        uBassGain: { value: PRESETS.ambient.bassGain },
-        uBassReach: { value: PRESETS.ambient.bassReach },
-        uHueSpeed: { value: PRESETS.ambient.hueSpeed },
-        uShimmerAmp: { value: PRESETS.ambient.shimmerAmp },
-        uShimmerSpeed: { value: PRESETS.ambient.shimmerSpeed },
-      },
-      transparent: true,
-      depthTest: false,
-      depthWrite: false,
-    });
-
-    const mesh = new THREE.Mesh(geometry, material);
-    scene.add(mesh);
+    // Create the visualizer for the current preset/setting
+    applyVisualizer();
 
     // Handle window resize
     window.addEventListener("resize", onWindowResize);
+    document.addEventListener("visibilitychange", onVisibilityChange);
 
     console.log("[PulseSynth:Renderer] Initialized successfully.");
-    return canvas;
+    return overlay;
   } catch (error) {
     console.error("[PulseSynth:Renderer] Failed to initialize:", error);
+    destroyRenderer();
     return null;
   }
 }
 
 function onWindowResize() {
-  if (!renderer || !material) return;
+  if (!overlay) return;
 
-  renderer.setSize(window.innerWidth, window.innerHeight);
-  material.uniforms.uResolution.value.set(window.innerWidth, window.innerHeight);
+  applyRenderScale();
+  uniforms.uResolution.value.set([window.innerWidth, window.innerHeight]);
+  visualizer?.resize(window.innerWidth, window.innerHeight);
 }
 
-export function startRenderLoop() {
-  if (animationId !== null) return;
+// Pause while the tab is hidden, resume when it becomes visible again
+function onVisibilityChange() {
+  if (document.hidden) {
+    pauseRenderLoop();
+  } else {
+    resumeRenderLoop();
+  }
+}
+
+// Render below CSS resolution; the canvas is stretched back to full size
+function applyRenderScale() {
+  gl?.setSize(window.innerWidth, window.innerHeight, qualityController.scale);
+}
+
+// Upload the palette stops (none = classic hue formula)
+function applyPalette() {
+  const stops = resolvePaletteStops(settings.palette, settings.customPalette) ?? [];
+  const colors = uniforms.uPalette.value as Float32Array;
+  stops.forEach((stop, i) => colors.set(hexToRgb(stop), i * 3));
+
+  uniforms.uPaletteSize.value = stops.length;
+  uniforms.uPaletteMix.value = settings.paletteMix / 100;
+}
+
+// Mode to draw: the explicit setting, or the active preset's mode
+function getActiveMode(): VisualMode {
+  if (settings.visualizer !== "preset" && isVisualMode(settings.visualizer)) {
+    return settings.visualizer;
+  }
+  return resolvePreset(settings.preset, customPresets).mode;
+}
+
+// Swap visualizers if the active mode changed
+function applyVisualizer() {
+  if (!gl) return;
 
-  const startTime = performance.now();
+  const mode = getActiveMode();
+  if (mode === activeMode && visualizer) return;
 
-  function render() {
-    if (!renderer || !scene || !camera || !material) {
-      animationId = null;
+  visualizer?.dispose();
+  visualizer = createVisualizer(mode);
+  visualizer.init({ gl, uniforms });
+  visualizer.resize(window.innerWidth, window.innerHeight);
+  activeMode = mode;
+
+  console.log("[PulseSynth:Renderer] Visualizer:", mode);
+}
+
+function isSilent(): boolean {
+  return audioData.bass + audioData.mids + audioData.highs + audioData.energy < SILENCE_THRESHOLD;
+}
+
+function render(now: number) {
+  animationId = null;
+  if (!overlay) return;
+
+  // Frame-rate cap: skip display frames until the next frame is due
+  const frameInterval = settings.frameRateCap > 0 ? 1000 / settings.frameRateCap : 0;
+  const elapsed = now - lastFrameTime;
+  if (elapsed < frameInterval * (1 - FRAME_CAP_TOLERANCE)) {
+    animationId = requestAnimationFrame(render);
+    return;
+  }
+
+  // Sustained silence: clear the overlay and stop drawing until audio returns
+  if (isSilent() && beatPulse < 0.01) {
+    silentSince ??= now;
+    if (now - silentSince > SILENCE_PAUSE_MS) {
+      gl?.clear();
+      fallback?.clear();
+      pausedForSilence = true;
+      console.log("[PulseSynth:Renderer] Paused for silence.");
       return;
     }
+  } else {
+    silentSince = null;
+  }
 
-    // Update time uniform
-    material.uniforms.uTime.value = (performance.now() - startTime) / 1000;
+  // Advance the cap clock by whole intervals so the remainder carries over (a 144 Hz display still gets 60 fps),
+  // starting over after a stall instead of catching up with a burst of frames
+  lastFrameTime = frameInterval > 0 && elapsed < frameInterval * 2 ? lastFrameTime + frameInterval : now;
 
-    // Update audio uniforms (will be used in Phase 6)
-    material.uniforms.uBass.value = audioData.bass;
-    material.uniforms.uMids.value = audioData.mids;
-    material.uniforms.uHighs.value = audioData.highs;
-    material.uniforms.uEnergy.value = audioData.energy;
+  const frameTime = now - lastDrawTime;
+  const deltaSeconds = frameTime / 1000;
+  lastDrawTime = now;
 
-    renderer.render(scene, camera);
-    animationId = requestAnimationFrame(render);
+  // Auto quality: WebGL draws asynchronously, so a GPU that can't keep up shows as frames arriving later
+  // than the cap allows. Lower the resolution when they run over budget
+  if (qualityController.recordFrame(frameTime, frameInterval || 1000 / 60, now)) {
+    applyRenderScale();
+    console.log("[PulseSynth:Renderer] Render scale:", qualityController.scale.toFixed(2));
+  }
+
+  // Update time uniform
+  uniforms.uTime.value = (now - startTime) / 1000;
+
+  // Decay beat envelope
+  beatPulse *= Math.exp(-BEAT_DECAY_PER_SECOND * deltaSeconds);
+
+  // Tempo sync: extrapolate beat phase and advance the musical clock
+  let beatPhase = audioData.beatPhase;
+  if (audioData.bpm > 0) {
+    beatPhase = (beatPhase + ((now - beatPhaseReceivedAt) / 60000) * audioData.bpm) % 1;
+    tempoTime += deltaSeconds * (audioData.bpm / TEMPO_REFERENCE_BPM);
+  } else {
+    tempoTime += deltaSeconds;
+  }
+  uniforms.uBpm.value = audioData.bpm;
+  uniforms.uBeatPhase.value = beatPhase;
+  uniforms.uTempoTime.value = tempoTime;
+
+  // Update audio uniforms, limited so the overlay never flashes more than three times a second
+  const limited = flashLimiter.process(
+    { bass: audioData.bass, highs: audioData.highs, energy: audioData.energy, beat: beatPulse },
+    { now, deltaSeconds, safeMode: isSafeModeActive() },
+  );
+  uniforms.uBass.value = limited.bass;
+  uniforms.uMids.value = audioData.mids;
+  uniforms.uHighs.value = limited.highs;
+  uniforms.uEnergy.value = limited.energy;
+  uniforms.uBeat.value = limited.beat;
+  uniforms.uShimmerAmp.value = presetShimmerAmp * limited.depth;
+
+  // Ease the ambilight towards the latest video colours (or back to the audio colours)
+  const videoResponse = 1 - Math.exp(-deltaSeconds / VIDEO_COLOR_SECONDS);
+  const videoEdges = uniforms.uVideoEdges.value as Float32Array;
+  for (let i = 0; i < videoEdges.length; i++) {
+    videoEdges[i] += (videoTarget[i] - videoEdges[i]) * videoResponse;
+  }
+  uniforms.uVideoMix.value += ((hasVideo ? 1 : 0) - uniforms.uVideoMix.value) * videoResponse;
+
+  if (gl && visualizer) {
+    visualizer.update({
+      audio: audioData,
+      time: uniforms.uTime.value,
+      deltaSeconds,
+      modulationDepth: limited.depth,
+    });
+    gl.clear();
+    visualizer.draw();
+  } else {
+    fallback?.update(uniforms);
   }
 
   animationId = requestAnimationFrame(render);
-  console.log("[PulseSynth:Renderer] Render loop started.");
 }
 
-export function stopRenderLoop() {
+// Schedule frames again if the loop is wanted and nothing is holding it paused
+function resumeRenderLoop() {
+  if (!loopRequested || animationId !== null || document.hidden) return;
+
+  pausedForSilence = false;
+  silentSince = null;
+  lastFrameTime = performance.now();
+  lastDrawTime = lastFrameTime;
+  animationId = requestAnimationFrame(render);
+}
+
+function pauseRenderLoop() {
   if (animationId !== null) {
     cancelAnimationFrame(animationId);
     animationId = null;
-    console.log("[PulseSynth:Renderer] Render loop stopped.");
   }
 }
 
-export function updateAudioData(data: { bass: number; mids: number; highs: number; energy: number }) {
-  audioData = data;
+export function startRenderLoop() {
+  if (loopRequested) return;
+
+  loopRequested = true;
+  startTime = performance.now();
+  resumeRenderLoop();
+  console.log("[PulseSynth:Renderer] Render loop started.");
+}
+
+export function stopRenderLoop() {
+  if (!loopRequested) return;
+
+  loopRequested = false;
+  pauseRenderLoop();
+  console.log("[PulseSynth:Renderer] Render loop stopped.");
 }
 
-// Apply a preset to the shader
-export function setPreset(presetName: PresetName) {
-  const preset = PRESETS[presetName];
+export function updateAudioData(data: AudioFrame) {
+  audioData = data;
+  beatPhaseReceivedAt = performance.now();
+
+  // Audio is back after a silent pause
+  if (pausedForSilence && !isSilent()) {
+    resumeRenderLoop();
+  }
+
+  // Upload the new waveform on the next render
+  if (data.waveform.length === WAVEFORM_SAMPLE_COUNT) {
+    waveformPixels.set(data.waveform);
+    waveformTexture.needsUpdate = true;
+  }
 
-  if (material) {
-    material.uniforms.uBassGain.value = preset.bassGain;
-    material.uniforms.uBassReach.value = preset.bassReach;
-    material.uniforms.uHueSpeed.value = preset.hueSpeed;
-    material.uniforms.uShimmerAmp.value = preset.shimmerAmp;
-    material.uniforms.uShimmerSpeed.value = preset.shimmerSpeed;
+  // Trigger beat envelope here rather than in the render loop so no beats are missed
+  if (data.beat) {
+    beatPulse = Math.max(beatPulse, 0.5 + data.beatStrength * 0.5);
   }
 }
 
-export function updateSettings(newSettings: { intensity: number; glowWidth: number; preset?: PresetName }) {
+// Whether the content script needs to sample video colours
+export function isVideoSamplingNeeded(): boolean {
+  return activeMode === "ambilight";
+}
+
+// Video edge colours for the ambilight (null = no video, fall back to the audio colours)
+export function updateVideoColors(colors: VideoEdgeColors | null) {
+  hasVideo = colors !== null;
+  colors?.forEach((color, i) => videoTarget.set(color, i * 3));
+}
+
+// Apply a preset (built-in or custom, by ID) to the shader
+export function setPreset(presetId: string) {
+  const preset: PresetParams = resolvePreset(presetId, customPresets);
+
+  uniforms.uBassGain.value = preset.bassGain;
+  uniforms.uBassReach.value = preset.bassReach;
+  uniforms.uHueSpeed.value = preset.hueSpeed;
+  presetShimmerAmp = preset.shimmerAmp;
+  uniforms.uShimmerSpeed.value = preset.shimmerSpeed;
+  uniforms.uBeatResponse.value = preset.beatResponse;
+
+  applyVisualizer();
+}
+
+// Replace the custom preset list; re-applies the current preset in case it was edited
+export function setCustomPresets(presets: CustomPreset[]) {
+  customPresets = presets;
+  setPreset(settings.preset);
+}
+
+export function updateSettings(newSettings: OverlaySettings) {
+  const qualityChanged = newSettings.quality !== settings.quality;
   settings = { ...settings, ...newSettings };
-  if (material) {
-    material.uniforms.uIntensity.value = settings.intensity / 100;
-    material.uniforms.uGlowWidth.value = settings.glowWidth / 100;
+  if (qualityChanged) {
+    qualityController.setQuality(settings.quality);
+    applyRenderScale();
   }
+
+  uniforms.uIntensity.value = settings.intensity / 100;
+  uniforms.uGlowWidth.value = settings.glowWidth / 100;
+  uniforms.uScopeEdge.value = OSCILLOSCOPE_EDGE_INDEX[settings.oscilloscopeEdge] ?? OSCILLOSCOPE_EDGE_INDEX.bottom;
+  applyPalette();
+
   if (newSettings.preset) {
     setPreset(newSettings.preset);
+  } else {
+    applyVisualizer();
   }
 }
 
 export function destroyRenderer() {
   stopRenderLoop();
 
-  if (renderer) {
-    renderer.dispose();
-    if (renderer.domElement.parentNode) {
-      renderer.domElement.parentNode.removeChild(renderer.domElement);
-    }
-    renderer = null;
-  }
-
-  if (material) {
-    material.dispose();
-    material = null;
+  // Visualizers free their programs before the context goes
+  if (visualizer) {
+    visualizer.dispose();
+    visualizer = null;
+    activeMode = null;
   }
 
-  scene = null;
-  camera = null;
+  // Frees GPU textures too; the waveform is re-uploaded if the renderer is created again
+  gl?.dispose();
+  gl = null;
+  fallback = null;
+  overlay?.remove();
+  overlay = null;
+  beatPulse = 0;
+  tempoTime = 0;
+  flashLimiter.reset();
+  qualityController.reset();
+  silentSince = null;
+  pausedForSilence = false;
+  hasVideo = false;
+  uniforms.uVideoMix.value = 0;
 
   window.removeEventListener("resize", onWindowResize);
+  document.removeEventListener("visibilitychange", onVisibilityChange);
   console.log("[PulseSynth:Renderer] Destroyed.");
 }
@@ -0,0 +1,139 @@
+// PulseSynth Photosensitivity Safety
+// Flash-rate limiter for the overlay, plus the safe mode used for prefers-reduced-motion
+
+// Safe mode setting: "auto" follows prefers-reduced-motion, "locked" keeps safe mode on everywhere
+export type SafeModeSetting = "auto" | "locked";
+
+// WCAG 2.3.1: no more than three flashes in any one second
+export const MAX_FLASHES_PER_SECOND = 3;
+// WCAG counts a flash as a pair of opposing brightness changes of 10% or more
+const FLASH_THRESHOLD = 0.1;
+const FLASH_WINDOW_MS = 1000;
+
+// Modulation depth: 1 = unchanged, lower values shrink swings around the running average
+const MIN_DEPTH = 0.1;
+const SAFE_MODE_MAX_DEPTH = 0.3;
+const DEPTH_ATTACK_SECONDS = 0.05;
+const DEPTH_RELEASE_SECONDS = 2.0;
+
+// Running average the swings are shrunk towards
+const BASELINE_SECONDS = 1.0;
+// Safe mode also low-passes the inputs so fast pulses can't build up a full swing
+const SAFE_MODE_SMOOTHING_SECONDS = 0.5;
+
+// Audio-driven values that modulate overlay brightness
+export interface Modulation {
+  bass: number;
+  highs: number;
+  energy: number;
+  beat: number; // Beat envelope
+}
+
+// Limited values to upload, plus the depth applied (visualizers scale their own modulation by it)
+export interface LimitedModulation extends Modulation {
+  depth: number;
+}
+
+export interface FlashLimiterFrame {
+  now: number; // ms
+  deltaSeconds: number;
+  safeMode: boolean;
+}
+
+export interface FlashLimiter {
+  process(input: Modulation, frame: FlashLimiterFrame): LimitedModulation;
+  reset(): void;
+}
+
+// One-pole low-pass step
+function follow(current: number, target: number, deltaSeconds: number, timeConstant: number): number {
+  return current + (target - current) * (1 - Math.exp(-deltaSeconds / timeConstant));
+}
+
+// Create a limiter that watches the overlay's estimated brightness and shrinks the audio modulation
+// whenever opposing brightness changes approach three flashes per second
+export function createFlashLimiter(estimateBrightness: (modulation: Modulation) => number): FlashLimiter {
+  let depth = 1;
+  let smoothed: Modulation = { bass: 0, highs: 0, energy: 0, beat: 0 };
+  let baseline: Modulation = { bass: 0, highs: 0, energy: 0, beat: 0 };
+
+  // Brightness transitions (half flashes) in the last second
+  const transitions: number[] = [];
+  let extreme = 0; // Brightest (or darkest) value since the last transition
+  let rising = true;
+
+  // Record a transition whenever brightness reverses by at least the flash threshold
+  function trackBrightness(brightness: number, now: number) {
+    if (rising ? brightness > extreme : brightness < extreme) {
+      extreme = brightness;
+    } else if (Math.abs(brightness - extreme) >= FLASH_THRESHOLD) {
+      transitions.push(now);
+      rising = !rising;
+      extreme = brightness;
+    }
+
+    while (transitions.length > 0 && now - transitions[0] > FLASH_WINDOW_MS) {
+      transitions.shift();
+    }
+  }
+
+  return {
+    process(input: Modulation, frame: FlashLimiterFrame): LimitedModulation {
+      const { deltaSeconds, safeMode } = frame;
+
+      // Safe mode: no beat flashes and heavily smoothed levels
+      let source = input;
+      if (safeMode) {
+        smoothed = {
+          bass: follow(smoothed.bass, input.bass, deltaSeconds, SAFE_MODE_SMOOTHING_SECONDS),
+          highs: follow(smoothed.highs, input.highs, deltaSeconds, SAFE_MODE_SMOOTHING_SECONDS),
+          energy: follow(smoothed.energy, input.energy, deltaSeconds, SAFE_MODE_SMOOTHING_SECONDS),
+          beat: 0,
+        };
+        source = smoothed;
+      } else {
+        smoothed = { ...input };
+      }
+
+      baseline = {
+        bass: follow(baseline.bass, source.bass, deltaSeconds, BASELINE_SECONDS),
+        highs: follow(baseline.highs, source.highs, deltaSeconds, BASELINE_SECONDS),
+        energy: follow(baseline.energy, source.energy, deltaSeconds, BASELINE_SECONDS),
+        beat: 0, // Beats are pure flashes, so they shrink towards zero
+      };
+
+      // Two flashes already this second: clamp hard so a third full flash can't follow;
+      // one flash: start shrinking; otherwise recover slowly
+      const maxDepth = safeMode ? SAFE_MODE_MAX_DEPTH : 1;
+      if (transitions.length >= (MAX_FLASHES_PER_SECOND - 1) * 2) {
+        depth = MIN_DEPTH;
+      } else if (transitions.length >= 2) {
+        depth = follow(depth, MIN_DEPTH, deltaSeconds, DEPTH_ATTACK_SECONDS);
+      } else {
+        depth = follow(depth, maxDepth, deltaSeconds, DEPTH_RELEASE_SECONDS);
+      }
+      depth = Math.min(depth, maxDepth);
+
+      const output: LimitedModulation = {
+        bass: baseline.bass + (source.bass - baseline.bass) * depth,
+        highs: baseline.highs + (source.highs - baseline.highs) * depth,
+        energy: baseline.energy + (source.energy - baseline.energy) * depth,
+        beat: source.beat * depth,
+        depth,
+      };
+
+      // Measure what is actually drawn, so the limiter reacts to its own output
+      trackBrightness(estimateBrightness(output), frame.now);
+      return output;
+    },
+
+    reset() {
+      depth = 1;
+      smoothed = { bass: 0, highs: 0, energy: 0, beat: 0 };
+      baseline = { bass: 0, highs: 0, energy: 0, beat: 0 };
+      transitions.length = 0;
+      extreme = 0;
+      rising = true;
+    },
+  };
+}
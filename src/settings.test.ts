@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { SETTINGS_SCHEMA_VERSION, defaultSettings, migrateSettings, normalizeSettings } from "./settings";
+
+describe("settings migration", () => {
+  it("moves the capture source out of unversioned settings", () => {
+    const legacy = { intensity: 40, preset: "punchy", sourceType: "microphone", inputDeviceId: "mic-1", fftSize: 2048 };
+    const { settings, migrated } = migrateSettings({ shared: legacy, device: {} });
+
+    expect(migrated).toBe(true);
+    expect(settings).toEqual({
+      ...defaultSettings,
+      intensity: 40,
+      preset: "punchy",
+      fftSize: 2048,
+      sourceType: "microphone",
+      inputDeviceId: "mic-1",
+    });
+  });
+
+  it("reads current settings without migrating", () => {
+    const { sourceType, inputDeviceId, ...shared } = { ...defaultSettings, glowWidth: 70 };
+    const { settings, migrated } = migrateSettings({
+      shared: { version: SETTINGS_SCHEMA_VERSION, ...shared },
+      device: { sourceType, inputDeviceId, sync: true },
+    });
+
+    expect(migrated).toBe(false);
+    expect(settings).toEqual({ ...defaultSettings, glowWidth: 70 });
+  });
+
+  it("keeps this device's capture source over one left in synced settings", () => {
+    const { settings } = migrateSettings({
+      shared: { sourceType: "microphone", inputDeviceId: "other-machine" },
+      device: { sourceType: "tab", inputDeviceId: "" },
+    });
+
+    expect(settings.sourceType).toBe("tab");
+    expect(settings.inputDeviceId).toBe("");
+  });
+
+  it("resets settings with a version it can't migrate from", () => {
+    for (const version of [0, -1, 1.5, "2", null, NaN]) {
+      const { settings, migrated } = migrateSettings({
+        shared: { version, intensity: 10 },
+        device: { sourceType: "microphone" },
+      });
+
+      expect(migrated).toBe(true);
+      expect(settings).toEqual({ ...defaultSettings, sourceType: "microphone" });
+    }
+  });
+
+  it("reads settings written by a newer version as they are", () => {
+    const { settings, migrated } = migrateSettings({
+      shared: { version: SETTINGS_SCHEMA_VERSION + 1, intensity: 10 },
+      device: {},
+    });
+
+    expect(migrated).toBe(false);
+    expect(settings.intensity).toBe(10);
+  });
+});
+
+describe("settings validation", () => {
+  it("clamps numbers and replaces unknown values with defaults", () => {
+    const settings = normalizeSettings({
+      intensity: 250,
+      glowWidth: -5,
+      visualizer: "lasers",
+      quality: "ultra",
+      frameRateCap: 45,
+      safeMode: true,
+      palette: "ocean",
+      customPalette: ["#ff0000", "red"],
+      paletteMix: 33.4,
+      agcTarget: "60",
+      sourceType: "bluetooth",
+    });
+
+    expect(settings.intensity).toBe(100);
+    expect(settings.glowWidth).toBe(0);
+    expect(settings.visualizer).toBe(defaultSettings.visualizer);
+    expect(settings.quality).toBe(defaultSettings.quality);
+    expect(settings.frameRateCap).toBe(defaultSettings.frameRateCap);
+    expect(settings.safeMode).toBe(defaultSettings.safeMode);
+    expect(settings.palette).toBe("ocean");
+    expect(settings.customPalette).toEqual(defaultSettings.customPalette);
+    expect(settings.paletteMix).toBe(33);
+    expect(settings.agcTarget).toBe(defaultSettings.agcTarget);
+    expect(settings.sourceType).toBe(defaultSettings.sourceType);
+  });
+
+  it("drops fields that aren't settings", () => {
+    expect(normalizeSettings({ version: 2, sync: true, theme: "dark" })).toEqual(defaultSettings);
+  });
+});
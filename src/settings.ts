@@ -0,0 +1,295 @@
+// PulseSynth Settings
+// User settings shared by the popup, background, offscreen document and content script, and the versioned store
+// that keeps them in chrome.storage (optionally synced between machines)
+
+import { defaultAnalysisSettings, normalizeAnalysisSettings, type AnalysisSettings } from "./analysis/analyzer";
+import {
+  BUILT_IN_PALETTES,
+  MAX_PALETTE_STOPS,
+  MIN_PALETTE_STOPS,
+  defaultPaletteSettings,
+  isPaletteColor,
+  type PaletteId,
+  type PaletteSettings,
+} from "./palettes";
+import { OSCILLOSCOPE_EDGES, VISUAL_MODES, type OscilloscopeEdge, type VisualizerSetting } from "./presets";
+import type { CaptureSourceType } from "./protocol";
+import { FRAME_RATE_CAPS, QUALITY_LEVELS, type QualitySetting } from "./quality";
+import type { SafeModeSetting } from "./safety";
+
+// Storage key for the shared settings (in the sync area when sync is on, otherwise in the local area)
+export const SETTINGS_KEY = "pulseSynthSettings";
+
+// Settings interface (palette fields come from PaletteSettings, FFT/crossover/AGC from AnalysisSettings)
+export interface Settings extends PaletteSettings, AnalysisSettings {
+  intensity: number;
+  glowWidth: number;
+  preset: string; // Built-in preset name or custom preset ID
+  visualizer: VisualizerSetting; // Overlay mode ("preset" = use the preset's mode)
+  oscilloscopeEdge: OscilloscopeEdge; // Screen edge for the oscilloscope waveform
+  safeMode: SafeModeSetting; // Photosensitivity safe mode ("auto" = follow prefers-reduced-motion)
+  quality: QualitySetting; // Internal render resolution ("auto" = adapt to frame time)
+  frameRateCap: number; // Maximum overlay frame rate (0 = display refresh rate)
+  sourceType: CaptureSourceType; // Capture a browser tab or an audio input device
+  inputDeviceId: string; // Selected audioinput device ("" = system default)
+}
+
+// Settings the overlay renderer uses
+export type OverlaySettings = Omit<Settings, keyof AnalysisSettings | "sourceType" | "inputDeviceId">;
+
+// Default settings
+export const defaultSettings: Settings = {
+  intensity: 100,
+  glowWidth: 100,
+  preset: "ambient",
+  visualizer: "preset",
+  oscilloscopeEdge: "bottom",
+  safeMode: "auto",
+  quality: "auto",
+  frameRateCap: 60,
+  ...defaultPaletteSettings,
+  ...defaultAnalysisSettings,
+  sourceType: "tab",
+  inputDeviceId: "",
+};
+
+// Version of the stored settings layout, written with them (1 = the flat, unversioned object)
+export const SETTINGS_SCHEMA_VERSION = 2;
+
+// Storage key for the settings that belong to this device (always in local storage, never synced)
+export const DEVICE_SETTINGS_KEY = "pulseSynthDeviceSettings";
+
+// Settings tied to this machine's hardware, kept out of the synced settings
+const DEVICE_SETTING_FIELDS = ["sourceType", "inputDeviceId"] as const;
+
+// Settings that follow the user between machines when sync is on
+type SharedSettings = Omit<Settings, (typeof DEVICE_SETTING_FIELDS)[number]>;
+
+// This device's settings, plus whether the shared settings live in sync or local storage
+interface DeviceSettings extends Pick<Settings, (typeof DEVICE_SETTING_FIELDS)[number]> {
+  sync: boolean;
+}
+
+// Raw stored records, before migration and validation
+export interface StoredSettings {
+  shared: Record<string, unknown>; // Under SETTINGS_KEY, in the sync or local area
+  device: Record<string, unknown>; // Under DEVICE_SETTINGS_KEY, in the local area
+}
+
+// Upgrades keyed by the version they start from; each one moves the records up by one version
+const MIGRATIONS: Record<number, (stored: StoredSettings) => StoredSettings> = {
+  // 1 -> 2: the capture source is per machine, so it moves out of the (now syncable) shared record
+  1: ({ shared, device }) => {
+    const { sourceType, inputDeviceId, ...rest } = shared;
+    return { shared: rest, device: { sourceType, inputDeviceId, ...device } };
+  },
+};
+
+// Writes are held back this long after the last change, but never longer than the maximum
+// (chrome.storage.sync allows about two writes per second)
+const WRITE_DELAY_MS = 250;
+const MAX_WRITE_DELAY_MS = 1000;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function numberInRange(value: unknown, min: number, max: number, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+}
+
+function oneOf<T>(value: unknown, options: readonly T[], fallback: T): T {
+  return options.includes(value as T) ? (value as T) : fallback;
+}
+
+// Fill in defaults and replace anything out of range or of the wrong type
+export function normalizeSettings(raw: Record<string, unknown>): Settings {
+  const fallback = defaultSettings;
+
+  const customPalette = Array.isArray(raw.customPalette)
+    ? raw.customPalette.filter(isPaletteColor).slice(0, MAX_PALETTE_STOPS)
+    : [];
+
+  return {
+    intensity: Math.round(numberInRange(raw.intensity, 0, 100, fallback.intensity)),
+    glowWidth: Math.round(numberInRange(raw.glowWidth, 0, 100, fallback.glowWidth)),
+    preset: typeof raw.preset === "string" && raw.preset ? raw.preset : fallback.preset,
+    visualizer: oneOf(
+      raw.visualizer,
+      ["preset", ...Object.keys(VISUAL_MODES)] as VisualizerSetting[],
+      fallback.visualizer,
+    ),
+    oscilloscopeEdge: oneOf(
+      raw.oscilloscopeEdge,
+      Object.keys(OSCILLOSCOPE_EDGES) as OscilloscopeEdge[],
+      fallback.oscilloscopeEdge,
+    ),
+    safeMode: oneOf<SafeModeSetting>(raw.safeMode, ["auto", "locked"], fallback.safeMode),
+    quality: oneOf(raw.quality, Object.keys(QUALITY_LEVELS) as QualitySetting[], fallback.quality),
+    frameRateCap: oneOf(raw.frameRateCap, FRAME_RATE_CAPS.map(({ value }) => value), fallback.frameRateCap),
+    palette: oneOf<PaletteId>(
+      raw.palette,
+      ["classic", "custom", ...(Object.keys(BUILT_IN_PALETTES) as PaletteId[])],
+      fallback.palette,
+    ),
+    customPalette: customPalette.length >= MIN_PALETTE_STOPS ? customPalette : [...fallback.customPalette],
+    paletteMix: Math.round(numberInRange(raw.paletteMix, 0, 100, fallback.paletteMix)),
+    // Ranges and FFT sizes are enforced by the analyzer's own normalization
+    ...normalizeAnalysisSettings({
+      fftSize: numberInRange(raw.fftSize, 0, Infinity, fallback.fftSize),
+      bassCrossover: numberInRange(raw.bassCrossover, 0, 20000, fallback.bassCrossover),
+      midsCrossover: numberInRange(raw.midsCrossover, 0, 20000, fallback.midsCrossover),
+      agcEnabled: typeof raw.agcEnabled === "boolean" ? raw.agcEnabled : fallback.agcEnabled,
+      agcTarget: numberInRange(raw.agcTarget, 0, 100, fallback.agcTarget),
+    }),
+    sourceType: oneOf<CaptureSourceType>(raw.sourceType, ["tab", "microphone"], fallback.sourceType),
+    inputDeviceId: typeof raw.inputDeviceId === "string" ? raw.inputDeviceId : fallback.inputDeviceId,
+  };
+}
+
+// Bring stored records up to the current schema; migrated is set when they should be written back
+export function migrateSettings(stored: StoredSettings): { settings: Settings; migrated: boolean } {
+  // Records without a version predate versioning; records from a newer version are read as they are
+  const storedVersion = stored.shared.version === undefined ? 1 : stored.shared.version;
+
+  // A version with no migration path (0, negative, fractional, not a number) means the record is corrupt
+  if (
+    typeof storedVersion !== "number" ||
+    !Number.isInteger(storedVersion) ||
+    (storedVersion < SETTINGS_SCHEMA_VERSION && !(storedVersion in MIGRATIONS))
+  ) {
+    console.warn(`[PulseSynth:Settings] Unknown settings version ${String(storedVersion)}, resetting to defaults`);
+    return { settings: normalizeSettings({ ...stored.device }), migrated: true };
+  }
+
+  let version = storedVersion;
+  let current = stored;
+  while (version < SETTINGS_SCHEMA_VERSION) {
+    current = MIGRATIONS[version](current);
+    version++;
+  }
+
+  return {
+    settings: normalizeSettings({ ...current.shared, ...current.device }),
+    migrated: stored.shared.version !== version,
+  };
+}
+
+// Storage area holding the shared settings
+function getSettingsArea(sync: boolean): chrome.storage.StorageArea {
+  return sync ? chrome.storage.sync : chrome.storage.local;
+}
+
+async function readDeviceSettings(): Promise<Record<string, unknown>> {
+  const result = await chrome.storage.local.get([DEVICE_SETTINGS_KEY]);
+  return isRecord(result[DEVICE_SETTINGS_KEY]) ? result[DEVICE_SETTINGS_KEY] : {};
+}
+
+async function readSharedSettings(sync: boolean): Promise<Record<string, unknown> | null> {
+  const result = await getSettingsArea(sync).get([SETTINGS_KEY]);
+  return isRecord(result[SETTINGS_KEY]) ? result[SETTINGS_KEY] : null;
+}
+
+// Write both records in the current schema
+async function writeSettings(settings: Settings, sync: boolean): Promise<void> {
+  const { sourceType, inputDeviceId, ...shared } = settings;
+  const device: DeviceSettings = { sourceType, inputDeviceId, sync };
+  const sharedRecord: SharedSettings & { version: number } = { version: SETTINGS_SCHEMA_VERSION, ...shared };
+
+  await Promise.all([
+    getSettingsArea(sync).set({ [SETTINGS_KEY]: sharedRecord }),
+    chrome.storage.local.set({ [DEVICE_SETTINGS_KEY]: device }),
+  ]);
+}
+
+// Whether the shared settings are kept in chrome.storage.sync on this device
+export async function isSettingsSyncEnabled(): Promise<boolean> {
+  return (await readDeviceSettings()).sync === true;
+}
+
+// Load the settings, migrating and writing back older stored versions
+export async function loadSettings(): Promise<Settings> {
+  const device = await readDeviceSettings();
+  const sync = device.sync === true;
+  const shared = await readSharedSettings(sync);
+  if (!shared) return normalizeSettings(device);
+
+  const { settings, migrated } = migrateSettings({ shared, device });
+  if (migrated) {
+    console.log(`[PulseSynth:Settings] Migrated stored settings to version ${SETTINGS_SCHEMA_VERSION}`);
+    await writeSettings(settings, sync);
+  }
+  return settings;
+}
+
+// Validate and save the settings right away (use a settings writer for rapid changes)
+export async function saveSettings(settings: Settings): Promise<void> {
+  await writeSettings(normalizeSettings({ ...settings }), await isSettingsSyncEnabled());
+}
+
+// Move the shared settings to sync or back to local storage; returns the settings now in use
+// Turning sync on adopts settings already synced from another machine, turning it off keeps the synced ones locally
+export async function setSettingsSyncEnabled(enabled: boolean): Promise<Settings> {
+  const device = await readDeviceSettings();
+  const current = await loadSettings();
+  const synced = enabled ? await readSharedSettings(true) : null;
+
+  const settings = synced ? migrateSettings({ shared: synced, device }).settings : current;
+  await writeSettings(settings, enabled);
+  return settings;
+}
+
+// Call the listener with the reloaded settings whenever they change in storage, from any context or device
+export function watchSettings(listener: (settings: Settings) => void) {
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    const changed = changes[SETTINGS_KEY] || (areaName === "local" && changes[DEVICE_SETTINGS_KEY]);
+    if (!changed || (areaName !== "local" && areaName !== "sync")) return;
+
+    loadSettings().then(listener, (error) => {
+      console.error("[PulseSynth:Settings] Failed to reload settings:", error);
+    });
+  });
+}
+
+// Debounced saving for controls that change many times a second (slider drags, colour pickers)
+export interface SettingsWriter {
+  save(settings: Settings): void;
+  flush(): Promise<void>; // Write a pending change now
+  readonly isPending: boolean;
+}
+
+export function createSettingsWriter(): SettingsWriter {
+  let pending: Settings | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let firstChangeAt = 0;
+
+  const flush = async () => {
+    if (timer !== null) clearTimeout(timer);
+    timer = null;
+    if (!pending) return;
+
+    const settings = pending;
+    pending = null;
+    try {
+      await saveSettings(settings);
+    } catch (error) {
+      console.error("[PulseSynth:Settings] Failed to save settings:", error);
+    }
+  };
+
+  return {
+    save(settings: Settings) {
+      const now = Date.now();
+      if (!pending) firstChangeAt = now;
+      pending = settings;
+
+      if (timer !== null) clearTimeout(timer);
+      const delay = Math.min(WRITE_DELAY_MS, Math.max(0, firstChangeAt + MAX_WRITE_DELAY_MS - now));
+      timer = setTimeout(flush, delay);
+    },
+    flush,
+    get isPending() {
+      return pending !== null;
+    },
+  };
+}
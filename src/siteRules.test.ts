@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { applySiteRule, findSiteRule, matchesSitePattern, normalizeSitePattern, type SiteRule } from "./siteRules";
+
+const rule = (pattern: string, overrides: Partial<SiteRule> = {}): SiteRule => ({
+  id: pattern,
+  pattern,
+  disabled: false,
+  ...overrides,
+});
+
+describe("site patterns", () => {
+  it("matches exact hosts case-insensitively", () => {
+    expect(matchesSitePattern("docs.google.com", "docs.google.com")).toBe(true);
+    expect(matchesSitePattern("Docs.Google.com", "docs.google.com")).toBe(true);
+    expect(matchesSitePattern("mail.google.com", "docs.google.com")).toBe(false);
+    expect(matchesSitePattern("docs.google.com.evil.net", "docs.google.com")).toBe(false);
+  });
+
+  it("lets a leading wildcard cover subdomains and the bare domain", () => {
+    expect(matchesSitePattern("team.atlassian.net", "*.atlassian.net")).toBe(true);
+    expect(matchesSitePattern("a.b.atlassian.net", "*.atlassian.net")).toBe(true);
+    expect(matchesSitePattern("atlassian.net", "*.atlassian.net")).toBe(true);
+    expect(matchesSitePattern("notatlassian.net", "*.atlassian.net")).toBe(false);
+  });
+
+  it("treats other wildcards as any run of characters and dots literally", () => {
+    expect(matchesSitePattern("music.youtube.com", "*youtube*")).toBe(true);
+    expect(matchesSitePattern("examplexcom", "example.com")).toBe(false);
+    expect(matchesSitePattern("anything", "")).toBe(false);
+  });
+
+  it("reduces pasted URLs to host patterns", () => {
+    expect(normalizeSitePattern("  https://Docs.Google.com:443/document/d/1?x#y ")).toBe("docs.google.com");
+    expect(normalizeSitePattern("*.Atlassian.net/wiki")).toBe("*.atlassian.net");
+  });
+});
+
+describe("site rule precedence", () => {
+  const rules = [rule("*.google.com", { intensity: 20 }), rule("docs.google.com", { disabled: true }), rule("*")];
+
+  it("prefers an exact pattern over wildcards", () => {
+    expect(findSiteRule("https://docs.google.com/document", rules)?.pattern).toBe("docs.google.com");
+  });
+
+  it("prefers the more specific wildcard", () => {
+    expect(findSiteRule("https://mail.google.com/", rules)?.pattern).toBe("*.google.com");
+    expect(findSiteRule("https://example.org/", rules)?.pattern).toBe("*");
+  });
+
+  it("ignores pages the overlay never runs on", () => {
+    expect(findSiteRule("chrome://extensions", rules)).toBeNull();
+    expect(findSiteRule("not a url", rules)).toBeNull();
+    expect(findSiteRule(undefined, rules)).toBeNull();
+  });
+
+  it("overrides only the settings a rule sets", () => {
+    const settings = { intensity: 100, glowWidth: 80, preset: "ambient" };
+
+    expect(applySiteRule(settings, rule("x", { intensity: 20 }))).toEqual({ ...settings, intensity: 20 });
+    expect(applySiteRule(settings, null)).toBe(settings);
+  });
+});
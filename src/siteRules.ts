@@ -0,0 +1,90 @@
+// PulseSynth Site Rules
+// Per-domain rules that hide the overlay or override its settings, shared by the background, content script and popup
+
+// A rule for every host matching its pattern
+export interface SiteRule {
+  id: string;
+  pattern: string; // Hostname with optional * wildcards, e.g. "docs.google.com" or "*.atlassian.net"
+  disabled: boolean; // Hide the overlay entirely on matching sites
+  intensity?: number; // Override (0-100)
+  glowWidth?: number; // Override (0-100)
+  preset?: string; // Override: built-in preset name or custom preset ID
+}
+
+// Overlay settings a rule can override
+export interface SiteOverridableSettings {
+  intensity: number;
+  glowWidth: number;
+  preset?: string;
+}
+
+// Storage key for site rules
+export const SITE_RULES_KEY = "pulseSynthSiteRules";
+
+// Generate a unique ID for a new rule
+export function createSiteRuleId(): string {
+  return `site-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Reduce user input (possibly a pasted URL) to a lowercase host pattern
+export function normalizeSitePattern(input: string): string {
+  return input
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z-]+:\/\//, "")
+    .replace(/[/?#].*$/, "")
+    .replace(/:\d+$/, "");
+}
+
+// Hostname of an http(s) URL, or null for pages the overlay never runs on
+export function getSiteHostname(url: string | undefined): string | null {
+  if (!url) return null;
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === "http:" || parsed.protocol === "https:" ? parsed.hostname : null;
+  } catch {
+    return null;
+  }
+}
+
+// Match a hostname against a pattern; "*" matches any run of characters,
+// and a leading "*." also matches the bare domain ("*.example.com" covers "example.com")
+export function matchesSitePattern(hostname: string, pattern: string): boolean {
+  if (!pattern) return false;
+
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+  const regex = pattern.startsWith("*.") ? `^(?:.*\\.)?${escaped.slice(4)}$` : `^${escaped}$`;
+  return new RegExp(regex).test(hostname.toLowerCase());
+}
+
+// Exact patterns beat wildcards; among the same kind the longer (more specific) pattern wins
+function getSpecificity(pattern: string): number {
+  return (pattern.includes("*") ? 0 : 1000) + pattern.replace(/\*/g, "").length;
+}
+
+// Find the rule that applies to a URL, if any
+export function findSiteRule(url: string | undefined, rules: SiteRule[]): SiteRule | null {
+  const hostname = getSiteHostname(url);
+  if (!hostname) return null;
+
+  let best: SiteRule | null = null;
+  for (const rule of rules) {
+    if (!matchesSitePattern(hostname, rule.pattern)) continue;
+    if (!best || getSpecificity(rule.pattern) > getSpecificity(best.pattern)) {
+      best = rule;
+    }
+  }
+  return best;
+}
+
+// Apply a rule's overrides on top of the user's settings
+export function applySiteRule<T extends SiteOverridableSettings>(settings: T, rule: SiteRule | null): T {
+  if (!rule) return settings;
+
+  return {
+    ...settings,
+    intensity: rule.intensity ?? settings.intensity,
+    glowWidth: rule.glowWidth ?? settings.glowWidth,
+    preset: rule.preset ?? settings.preset,
+  };
+}
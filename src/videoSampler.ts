@@ -0,0 +1,122 @@
+// PulseSynth Video Sampler
+// Finds the largest playing <video> on the page and averages the colours along each of its edges
+
+// Average colour of each video edge as 0-1 RGB, in the order top, right, bottom, left
+export type VideoEdgeColors = [number, number, number][];
+
+// Frames are scaled down to this size before sampling (16:9, the common case)
+const SAMPLE_WIDTH = 32;
+const SAMPLE_HEIGHT = 18;
+// Depth of the strip averaged along each edge, in sample pixels
+const EDGE_DEPTH = 3;
+// Pixels darker than this (0-255) are skipped so letterbox bars don't turn the glow black
+const MIN_PIXEL_BRIGHTNESS = 16;
+
+const SAMPLE_INTERVAL_MS = 200;
+
+interface VideoSamplerOptions {
+  isEnabled: () => boolean; // Sampling only runs while the ambilight mode is drawn
+  onColors: (colors: VideoEdgeColors | null) => void; // null = no readable video playing
+}
+
+export interface VideoSampler {
+  start(): void;
+  stop(): void;
+}
+
+// Largest video that is playing and at least partly on screen
+function findMainVideo(): HTMLVideoElement | null {
+  let best: HTMLVideoElement | null = null;
+  let bestArea = 0;
+
+  for (const video of Array.from(document.querySelectorAll("video"))) {
+    if (video.paused || video.ended || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) continue;
+
+    const rect = video.getBoundingClientRect();
+    const width = Math.min(rect.right, window.innerWidth) - Math.max(rect.left, 0);
+    const height = Math.min(rect.bottom, window.innerHeight) - Math.max(rect.top, 0);
+    const area = Math.max(0, width) * Math.max(0, height);
+    if (area > bestArea) {
+      best = video;
+      bestArea = area;
+    }
+  }
+
+  return best;
+}
+
+// Average the non-black pixels in a rectangle of the sampled frame
+function averageRegion(
+  data: Uint8ClampedArray,
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number,
+): [number, number, number] {
+  let r = 0;
+  let g = 0;
+  let b = 0;
+  let count = 0;
+
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const i = (y * SAMPLE_WIDTH + x) * 4;
+      if (Math.max(data[i], data[i + 1], data[i + 2]) < MIN_PIXEL_BRIGHTNESS) continue;
+      r += data[i];
+      g += data[i + 1];
+      b += data[i + 2];
+      count++;
+    }
+  }
+
+  return count > 0 ? [r / count / 255, g / count / 255, b / count / 255] : [0, 0, 0];
+}
+
+export function createVideoSampler(options: VideoSamplerOptions): VideoSampler {
+  const canvas = new OffscreenCanvas(SAMPLE_WIDTH, SAMPLE_HEIGHT);
+  const context = canvas.getContext("2d", { willReadFrequently: true })!;
+
+  // Cross-origin videos taint the canvas; remember them instead of throwing on every sample
+  const unreadable = new WeakSet<HTMLVideoElement>();
+  let intervalId: ReturnType<typeof setInterval> | null = null;
+
+  function sample(): VideoEdgeColors | null {
+    const video = findMainVideo();
+    if (!video || unreadable.has(video)) return null;
+
+    try {
+      context.drawImage(video, 0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+      const { data } = context.getImageData(0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+      return [
+        averageRegion(data, 0, 0, SAMPLE_WIDTH, EDGE_DEPTH),
+        averageRegion(data, SAMPLE_WIDTH - EDGE_DEPTH, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT),
+        averageRegion(data, 0, SAMPLE_HEIGHT - EDGE_DEPTH, SAMPLE_WIDTH, SAMPLE_HEIGHT),
+        averageRegion(data, 0, 0, EDGE_DEPTH, SAMPLE_HEIGHT),
+      ];
+    } catch (error) {
+      console.log("[PulseSynth:Video] Video can't be sampled:", error);
+      unreadable.add(video);
+      return null;
+    }
+  }
+
+  function tick() {
+    if (document.hidden || !options.isEnabled()) return;
+    options.onColors(sample());
+  }
+
+  return {
+    start() {
+      if (intervalId !== null) return;
+      intervalId = setInterval(tick, SAMPLE_INTERVAL_MS);
+      tick();
+    },
+
+    stop() {
+      if (intervalId === null) return;
+      clearInterval(intervalId);
+      intervalId = null;
+      options.onColors(null);
+    },
+  };
+}
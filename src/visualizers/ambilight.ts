@@ -0,0 +1,55 @@
+// PulseSynth Ambilight Visualizer
+// Edge glow coloured by the page's playing video, with the brightness still driven by the audio
+
+import { createShaderVisualizer } from "./shaderVisualizer";
+import type { Visualizer } from "./types";
+
+const fragmentShader = `
+  uniform vec3 uVideoEdges[4]; // Average video edge colours: top, right, bottom, left
+  uniform float uVideoMix; // 0 = no video (audio colours), 1 = video colours
+
+  // Blend the edge colours by closeness so they meet smoothly in the corners
+  vec3 videoColor(vec2 uv) {
+    vec4 weight = exp(-vec4(1.0 - uv.y, 1.0 - uv.x, uv.y, uv.x) * 8.0);
+    vec3 color = uVideoEdges[0] * weight.x + uVideoEdges[1] * weight.y
+      + uVideoEdges[2] * weight.z + uVideoEdges[3] * weight.w;
+    color /= weight.x + weight.y + weight.z + weight.w;
+
+    // Lift dim scenes so the glow stays visible without changing its hue
+    float peak = max(max(color.r, color.g), color.b);
+    return color / max(peak, 0.35);
+  }
+
+  void main() {
+    vec2 uv = vUv;
+
+    // Calculate distance from edges (0 at edges, 1 at center)
+    float edgeDistX = min(uv.x, 1.0 - uv.x) * 2.0;
+    float edgeDistY = min(uv.y, 1.0 - uv.y) * 2.0;
+    float edgeDist = min(edgeDistX, edgeDistY);
+
+    // Width follows the audio just like the edge glow
+    float bassEffect = uBass * uBassGain;
+    float beatEffect = uBeat * uBeatResponse;
+    float glowWidth = (0.1 + uEnergy * 0.15) * uGlowWidth;
+    float reach = (glowWidth + bassEffect * uBassReach + beatEffect * 0.1 * uGlowWidth) * (1.0 + bassEffect);
+    float glow = 1.0 - smoothstep(0.0, reach, edgeDist);
+
+    vec3 glowColor = mix(audioColor(), videoColor(uv), uVideoMix);
+    glowColor = mix(glowColor, vec3(1.0), beatEffect * 0.15);
+
+    // Shimmer effect (controlled by preset)
+    float shimmer = (hash(floor(uv * 15.0 + uTime * uShimmerSpeed)) - 0.5) * uHighs * uShimmerAmp * glow;
+
+    // Audio-driven intensity
+    float intensity = (0.4 + uEnergy * 0.4) * uIntensity;
+    float alpha = glow * intensity * breathe() + shimmer * uIntensity;
+    alpha += glow * beatEffect * 0.3 * uIntensity;
+
+    gl_FragColor = finalizeColor(glowColor, alpha);
+  }
+`;
+
+export function createAmbilight(): Visualizer {
+  return createShaderVisualizer({ fragmentShader });
+}
@@ -0,0 +1,40 @@
+// PulseSynth Corner Glow Visualizer
+// Radial glows blooming from the four screen corners
+
+import { createShaderVisualizer } from "./shaderVisualizer";
+import type { Visualizer } from "./types";
+
+const fragmentShader = `
+  void main() {
+    vec2 uv = vUv;
+
+    // Distance to the nearest corner, aspect-corrected so the glow stays round
+    float aspect = uResolution.x / max(uResolution.y, 1.0);
+    vec2 fromCorner = min(uv, 1.0 - uv);
+    fromCorner.x *= aspect;
+    float cornerDist = length(fromCorner);
+
+    // Radius grows with energy, bass and beats
+    float bassEffect = uBass * uBassGain;
+    float beatEffect = uBeat * uBeatResponse;
+    float radius = (0.15 + uEnergy * 0.25 + bassEffect * uBassReach + beatEffect * 0.1) * (0.5 + uGlowWidth);
+    float glow = 1.0 - smoothstep(0.0, radius, cornerDist);
+    glow *= glow; // Softer falloff
+
+    vec3 color = audioColor();
+    color = mix(color, vec3(1.0), beatEffect * 0.25);
+
+    // Shimmer ripples through the bloom on highs
+    float shimmer = (hash(floor(uv * 12.0 + uTime * uShimmerSpeed)) - 0.5) * uHighs * uShimmerAmp * glow;
+
+    float intensity = (0.5 + uEnergy * 0.4) * uIntensity;
+    float alpha = glow * intensity * breathe() + shimmer * uIntensity;
+    alpha += glow * beatEffect * 0.35 * uIntensity;
+
+    gl_FragColor = finalizeColor(color, alpha);
+  }
+`;
+
+export function createCornerGlow(): Visualizer {
+  return createShaderVisualizer({ fragmentShader });
+}
@@ -0,0 +1,57 @@
+// PulseSynth Edge Glow Visualizer
+// Audio-reactive glow along all four screen edges
+
+import { createShaderVisualizer } from "./shaderVisualizer";
+import type { Visualizer } from "./types";
+
+const fragmentShader = `
+  void main() {
+    vec2 uv = vUv;
+
+    // Calculate distance from edges (0 at edges, 1 at center)
+    float edgeDistX = min(uv.x, 1.0 - uv.x) * 2.0;
+    float edgeDistY = min(uv.y, 1.0 - uv.y) * 2.0;
+    float edgeDist = min(edgeDistX, edgeDistY);
+
+    // Dynamic glow width based on energy and user setting
+    float baseGlowWidth = 0.1 * uGlowWidth;
+    float glowWidth = baseGlowWidth + uEnergy * 0.15 * uGlowWidth;
+
+    // Bass-driven inward reach (controlled by preset)
+    float bassEffect = uBass * uBassGain;
+    float bassReach = bassEffect * uBassReach;
+    float bassPulse = 1.0 + bassEffect;
+    float beatEffect = uBeat * uBeatResponse;
+    float beatReach = beatEffect * 0.1 * uGlowWidth;
+    float glow = 1.0 - smoothstep(0.0, (glowWidth + bassReach + beatReach) * bassPulse, edgeDist);
+
+    vec3 glowColor = audioColor();
+    glowColor = mix(glowColor, vec3(1.0), beatEffect * 0.25);
+
+    // Shimmer effect (controlled by preset)
+    vec2 shimmerCoord = uv * 15.0 + uTime * uShimmerSpeed;
+    float shimmer = hash(floor(shimmerCoord));
+    shimmer = (shimmer - 0.5) * uHighs * uShimmerAmp;
+    float flicker = sin(uTime * (5.0 + uHighs * 10.0)) * 0.5 + 0.5;
+    shimmer *= flicker * glow; // Only shimmer in glow areas
+
+    // Intensity based on energy and user setting
+    float intensity = (0.4 + uEnergy * 0.4) * uIntensity;
+
+    // Final alpha with shimmer
+    float alpha = glow * intensity * breathe() + shimmer * uIntensity;
+
+    // Inner glow on bass hits (scaled by preset bass gain)
+    float innerGlow = smoothstep(0.3, 0.0, edgeDist) * bassEffect * 0.2 * uIntensity;
+    alpha += innerGlow;
+
+    // Beat flash (scaled by preset beat response)
+    alpha += glow * beatEffect * 0.35 * uIntensity;
+
+    gl_FragColor = finalizeColor(glowColor, alpha);
+  }
+`;
+
+export function createEdgeGlow(): Visualizer {
+  return createShaderVisualizer({ fragmentShader });
+}
@@ -0,0 +1,26 @@
+// PulseSynth Visualizer Registry
+// Maps each visual mode to a factory; the renderer switches modes at runtime on the same canvas
+
+import type { VisualMode } from "../presets";
+import { createAmbilight } from "./ambilight";
+import { createCornerGlow } from "./cornerGlow";
+import { createEdgeGlow } from "./edgeGlow";
+import { createOscilloscope } from "./oscilloscope";
+import { createSpectrumBars } from "./spectrumBars";
+import { createVignettePulse } from "./vignettePulse";
+import type { Visualizer } from "./types";
+
+export type { AudioFrame, FrameState, Visualizer, VisualizerContext } from "./types";
+
+export const VISUALIZERS: Record<VisualMode, () => Visualizer> = {
+  edgeGlow: createEdgeGlow,
+  spectrumBars: createSpectrumBars,
+  cornerGlow: createCornerGlow,
+  vignettePulse: createVignettePulse,
+  oscilloscope: createOscilloscope,
+  ambilight: createAmbilight,
+};
+
+export function createVisualizer(mode: VisualMode): Visualizer {
+  return (VISUALIZERS[mode] ?? VISUALIZERS.edgeGlow)();
+}
@@ -0,0 +1,86 @@
+// PulseSynth Oscilloscope Visualizer
+// Glowing time-domain waveform line along one chosen screen edge
+
+import { createShaderVisualizer } from "./shaderVisualizer";
+import type { Visualizer } from "./types";
+
+const fragmentShader = `
+  uniform int uScopeEdge; // 0 = bottom, 1 = top, 2 = left, 3 = right
+  uniform float uModulationDepth; // Flash limiter depth (1 = unchanged)
+
+  // Brightness kept at full damping, so the line calms down instead of vanishing
+  #define MIN_DAMPED_BRIGHTNESS 0.4
+
+  // Waveform sample at a position along the edge (-1 to 1)
+  float waveformAt(float x) {
+    return texture2D(uWaveform, vec2(clamp(x, 0.0, 1.0), 0.5)).r * 2.0 - 1.0;
+  }
+
+  void main() {
+    vec2 uv = vUv;
+
+    // Rotate into edge space: "along" runs parallel to the edge, "across" is 0 on the edge
+    float along = uv.x;
+    float across = uv.y;
+    vec2 size = uResolution;
+    if (uScopeEdge == 1) {
+      across = 1.0 - uv.y;
+    } else if (uScopeEdge == 2) {
+      along = uv.y;
+      across = uv.x;
+      size = uResolution.yx;
+    } else if (uScopeEdge == 3) {
+      along = uv.y;
+      across = 1.0 - uv.x;
+      size = uResolution.yx;
+    }
+    float acrossPx = across * size.y;
+    float unit = min(uResolution.x, uResolution.y);
+
+    // Baseline sits in from the edge; glow width moves it inward and scales the swing
+    float bassEffect = uBass * uBassGain;
+    float beatEffect = uBeat * uBeatResponse;
+    float baseline = unit * (0.06 + 0.06 * uGlowWidth);
+    float amplitude = unit * (0.03 + 0.05 * uGlowWidth) * (1.0 + bassEffect * uBassReach * 4.0 + beatEffect * 0.3);
+
+    // The flash limiter flattens the swing along with the rest of the audio modulation
+    amplitude *= uModulationDepth;
+
+    // Distance to the line in pixels, slope-corrected so steep segments keep their thickness
+    float texel = 1.0 / size.x;
+    float level = waveformAt(along);
+    float slope = (waveformAt(along + texel) - waveformAt(along - texel)) * amplitude * 0.5;
+    float lineDist = abs(acrossPx - (baseline + level * amplitude)) / sqrt(1.0 + slope * slope);
+
+    // Bright core plus a soft halo that widens with energy and beats
+    float thickness = 1.5 + uEnergy * 1.5;
+    float core = 1.0 - smoothstep(thickness * 0.5, thickness, lineDist);
+    float haloWidth = (6.0 + uEnergy * 14.0) * (0.5 + uGlowWidth) * (1.0 + beatEffect);
+    float halo = exp(-lineDist / haloWidth);
+
+    vec3 color = audioColor();
+    color = mix(color, vec3(1.0), core * 0.6 + beatEffect * 0.25);
+
+    // Shimmer flickers along the line on highs
+    float shimmer = (hash(vec2(floor(along * 64.0), floor(uTime * uShimmerSpeed))) - 0.5) * uHighs * uShimmerAmp;
+
+    float intensity = (0.6 + uEnergy * 0.4) * uIntensity;
+    float alpha = (core + halo * (0.6 * breathe() + shimmer)) * intensity;
+    alpha += halo * beatEffect * 0.3 * uIntensity;
+    alpha *= mix(MIN_DAMPED_BRIGHTNESS, 1.0, uModulationDepth);
+
+    gl_FragColor = finalizeColor(color, alpha);
+  }
+`;
+
+export function createOscilloscope(): Visualizer {
+  const modulationDepth = { value: 1 };
+
+  return createShaderVisualizer({
+    fragmentShader,
+    uniforms: { uModulationDepth: modulationDepth },
+    onUpdate(frame) {
+      modulationDepth.value = frame.modulationDepth;
+    },
+  });
+}
@@ -0,0 +1,138 @@
+// PulseSynth Shader Visualizer
+// Fullscreen-quad visualizer built from a fragment shader, plus GLSL shared by all modes
+
+import { MAX_PALETTE_STOPS } from "../palettes";
+import type { ShaderProgram, Uniforms } from "../webgl";
+import type { FrameState, Visualizer, VisualizerContext } from "./types";
+
+// Uniforms and helpers available to every visualizer's fragment shader
+export const commonShader = `
+  #define MAX_PALETTE_STOPS ${MAX_PALETTE_STOPS}
+
+  varying vec2 vUv;
+  uniform float uTime;
+  uniform float uBass;
+  uniform float uMids;
+  uniform float uHighs;
+  uniform float uEnergy;
+  uniform float uIntensity;
+  uniform float uGlowWidth;
+  uniform vec2 uResolution;
+
+  // Preset uniforms
+  uniform float uBassGain;
+  uniform float uBassReach;
+  uniform float uHueSpeed;
+  uniform float uShimmerAmp;
+  uniform float uShimmerSpeed;
+  uniform float uBeatResponse;
+
+  // Beat envelope (1.0 on a hit, decaying towards 0)
+  uniform float uBeat;
+
+  // Tempo sync (uBpm is 0 while the tempo is unknown)
+  uniform float uBpm;
+  uniform float uBeatPhase;
+  uniform float uTempoTime;
+
+  // Time-domain waveform (WAVEFORM_SAMPLE_COUNT x 1 data texture, 0.5 = silence)
+  uniform sampler2D uWaveform;
+
+  // Colour palette (uPaletteSize 0 = classic hue formula only)
+  uniform vec3 uPalette[MAX_PALETTE_STOPS];
+  uniform int uPaletteSize;
+  uniform float uPaletteMix; // 0 = palette only, 1 = classic hue rotation only
+
+  // Pseudo-random for shimmer
+  float hash(vec2 p) {
+    return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453);
+  }
+
+  // HSV to RGB conversion
+  vec3 hsv2rgb(vec3 c) {
+    vec4 K = vec4(1.0, 2.0 / 3.0, 1.0 / 3.0, 3.0);
+    vec3 p = abs(fract(c.xxx + K.xyz) * 6.0 - K.www);
+    return c.z * mix(K.xxx, clamp(p - K.xxx, 0.0, 1.0), c.y);
+  }
+
+  // Blend linearly between palette stops (loop keeps indices constant for GLSL ES)
+  vec3 samplePalette(float t) {
+    float position = clamp(t, 0.0, 1.0) * float(uPaletteSize - 1);
+    vec3 color = uPalette[0];
+    for (int i = 1; i < MAX_PALETTE_STOPS; i++) {
+      if (i < uPaletteSize) {
+        color = mix(color, uPalette[i], clamp(position - float(i - 1), 0.0, 1.0));
+      }
+    }
+    return color;
+  }
+
+  // Replace a classic hue-formula colour with the palette sampled at t, keeping uPaletteMix of the classic colour
+  vec3 applyPalette(vec3 classic, float t) {
+    if (uPaletteSize < 2) return classic;
+    return mix(samplePalette(t), classic, uPaletteMix);
+  }
+
+  // Audio-reactive color with preset-controlled hue speed; palettes are sampled by energy
+  vec3 audioColor() {
+    float hue = 0.75 - uBass * 0.25 + uHighs * 0.15;
+    hue = mod(hue + uTempoTime * uHueSpeed, 1.0);
+
+    float saturation = 0.7 + uMids * 0.3;
+    float brightness = 0.8 + uEnergy * 0.2;
+
+    return applyPalette(hsv2rgb(vec3(hue, saturation, brightness)), uEnergy);
+  }
+
+  // Breathing animation: peaks on each beat when the tempo is known
+  float breathe() {
+    return uBpm > 0.0
+      ? cos(uBeatPhase * 6.2831853) * 0.1 + 0.9
+      : sin(uTime * 2.0) * 0.1 + 0.9;
+  }
+
+  // Silence threshold - completely clear visuals when no audio
+  vec4 finalizeColor(vec3 color, float alpha) {
+    float audioSum = uBass + uMids + uHighs + uEnergy;
+    float silence = 1.0 - step(audioSum, 0.02);
+    return vec4(color, clamp(alpha * silence, 0.0, 0.9));
+  }
+`;
+
+interface ShaderVisualizerOptions {
+  fragmentShader: string; // Appended to commonShader
+  uniforms?: Uniforms; // Visualizer-specific uniforms
+  onUpdate?: (frame: FrameState) => void;
+}
+
+// Create a visualizer that draws one fullscreen quad with the given fragment shader
+export function createShaderVisualizer(options: ShaderVisualizerOptions): Visualizer {
+  let program: ShaderProgram | null = null;
+  let uniforms: Uniforms = {};
+
+  return {
+    init(context: VisualizerContext) {
+      program = context.gl.createProgram(commonShader + options.fragmentShader);
+      // Shared uniform objects are referenced, not copied
+      uniforms = { ...context.uniforms, ...options.uniforms };
+    },
+
+    update(frame: FrameState) {
+      options.onUpdate?.(frame);
+    },
+
+    draw() {
+      program?.draw(uniforms);
+    },
+
+    resize() {
+      // Fullscreen quad in clip space: nothing to do, uResolution is shared
+    },
+
+    dispose() {
+      program?.dispose();
+      program = null;
+      uniforms = {};
+    },
+  };
+}
@@ -0,0 +1,76 @@
+// PulseSynth Spectrum Bars Visualizer
+// Log-spaced frequency bands drawn as bars along the bottom edge
+
+import { createShaderVisualizer } from "./shaderVisualizer";
+import type { Visualizer } from "./types";
+
+// Log-spaced spectrum bands (must match SPECTRUM_BAND_COUNT in offscreen.ts)
+const SPECTRUM_BAND_COUNT = 32;
+
+// Bar smoothing at full damping (photosensitivity safety)
+const MAX_GLIDE_SECONDS = 0.5;
+
+const fragmentShader = `
+  #define SPECTRUM_BANDS ${SPECTRUM_BAND_COUNT}
+
+  uniform float uSpectrum[SPECTRUM_BANDS];
+
+  // Look up a spectrum band (GLSL ES needs constant indices, so loop)
+  float spectrumAt(int index) {
+    float value = 0.0;
+    for (int i = 0; i < SPECTRUM_BANDS; i++) {
+      if (i == index) value = uSpectrum[i];
+    }
+    return value;
+  }
+
+  void main() {
+    vec2 uv = vUv;
+    float bandPos = uv.x * float(SPECTRUM_BANDS);
+    int band = int(floor(bandPos));
+    float level = spectrumAt(band);
+
+    // Gap between bars
+    float cell = fract(bandPos);
+    float barMask = smoothstep(0.0, 0.08, cell) * smoothstep(1.0, 0.92, cell);
+
+    // Bar height scales with glow width, bass and beats push it up
+    float beatEffect = uBeat * uBeatResponse;
+    float maxHeight = 0.08 + 0.25 * uGlowWidth;
+    float height = level * maxHeight * (1.0 + uBass * uBassGain + beatEffect * 0.3);
+    float body = 1.0 - step(height, uv.y);
+
+    // Soft glow above the bar top
+    float halo = (1.0 - smoothstep(height, height + 0.04, uv.y)) * 0.5;
+    float bar = max(body, halo) * barMask;
+
+    // Hue sweeps across the bands and rotates with time
+    float hue = mod(0.75 - (float(band) / float(SPECTRUM_BANDS)) * 0.6 + uTempoTime * uHueSpeed, 1.0);
+    vec3 color = applyPalette(hsv2rgb(vec3(hue, 0.7 + uMids * 0.3, 0.8 + level * 0.2)), level);
+    color = mix(color, vec3(1.0), beatEffect * 0.25);
+
+    // Fade bars towards the top so the tip reads as light, not a solid block
+    float fade = mix(1.0, 0.6, uv.y / max(height, 0.001));
+    float alpha = bar * fade * (0.6 + level * 0.4) * uIntensity;
+
+    gl_FragColor = finalizeColor(color, alpha);
+  }
+`;
+
+export function createSpectrumBars(): Visualizer {
+  // Reused every frame; bands arrive as bytes
+  const spectrum = new Float32Array(SPECTRUM_BAND_COUNT);
+
+  return createShaderVisualizer({
+    fragmentShader,
+    uniforms: { uSpectrum: { value: spectrum } },
+    onUpdate(frame) {
+      // Bars follow the audio directly, or glide when the flash limiter is damping
+      const glideSeconds = (1 - frame.modulationDepth) * MAX_GLIDE_SECONDS;
+      const response = glideSeconds > 0 ? 1 - Math.exp(-frame.deltaSeconds / glideSeconds) : 1;
+      for (let i = 0; i < SPECTRUM_BAND_COUNT; i++) {
+        spectrum[i] += ((frame.audio.spectrum[i] ?? 0) / 255 - spectrum[i]) * response;
+      }
+    },
+  });
+}
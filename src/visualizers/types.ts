@@ -0,0 +1,32 @@
+// PulseSynth Visualizer Types
+// Interface implemented by every overlay mode in the registry
+
+import type { AudioBands } from "../analysis/analyzer";
+import type { GLContext, Uniforms } from "../webgl";
+
+// Audio frame streamed from the offscreen analyser
+export type AudioFrame = AudioBands;
+
+// Shared rendering resources handed to a visualizer on init
+export interface VisualizerContext {
+  gl: GLContext;
+  // Uniforms shared by all visualizers (time, audio bands, settings, preset, tempo)
+  // Visualizers reference these objects directly so the renderer updates them once per frame
+  uniforms: Uniforms;
+}
+
+// Per-frame data passed to update()
+export interface FrameState {
+  audio: AudioFrame;
+  time: number; // Seconds since the render loop started
+  deltaSeconds: number;
+  modulationDepth: number; // 1 = unchanged; lower while the flash limiter or safe mode is damping the audio
+}
+
+export interface Visualizer {
+  init(context: VisualizerContext): void;
+  update(frame: FrameState): void;
+  draw(): void;
+  resize(width: number, height: number): void;
+  dispose(): void;
+}
@@ -0,0 +1,34 @@
+// PulseSynth Vignette Pulse Visualizer
+// Coloured vignette that tightens on bass and beats
+
+import { createShaderVisualizer } from "./shaderVisualizer";
+import type { Visualizer } from "./types";
+
+const fragmentShader = `
+  void main() {
+    vec2 uv = vUv;
+
+    // Elliptical distance from the centre (0 at centre, ~1 at the corners)
+    vec2 centered = (uv - 0.5) * 2.0;
+    float dist = length(centered) / 1.41421356;
+
+    // Bass and beats pull the vignette inward
+    float bassEffect = uBass * uBassGain;
+    float beatEffect = uBeat * uBeatResponse;
+    float inner = 0.85 - uGlowWidth * 0.35 - bassEffect * uBassReach - beatEffect * 0.1;
+    float vignette = smoothstep(inner, 1.0, dist);
+
+    vec3 color = audioColor();
+    color = mix(color, vec3(1.0), beatEffect * 0.2);
+
+    float intensity = (0.45 + uEnergy * 0.35 + bassEffect * 0.2) * uIntensity;
+    float alpha = vignette * intensity * breathe();
+    alpha += vignette * beatEffect * 0.3 * uIntensity;
+
+    gl_FragColor = finalizeColor(color, alpha);
+  }
+`;
+
+export function createVignettePulse(): Visualizer {
+  return createShaderVisualizer({ fragmentShader });
+}
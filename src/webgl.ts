@@ -0,0 +1,210 @@
+// PulseSynth WebGL Core
+// Minimal WebGL2 wrapper for the overlay: fullscreen-quad shader programs, reflected uniforms and data textures
+
+// Uniform value: float/int/sampler scalars, float arrays and vectors, or a data texture
+export type UniformValue = number | Float32Array | DataTexture;
+
+// Uniform holder; values are updated in place and uploaded on every draw
+export interface Uniform {
+  value: UniformValue;
+}
+
+export type Uniforms = Record<string, Uniform>;
+
+// Single-channel byte texture (e.g. the waveform), uploaded when needsUpdate is set
+export interface DataTexture {
+  data: Uint8Array;
+  width: number;
+  height: number;
+  needsUpdate: boolean;
+}
+
+export interface ShaderProgram {
+  draw(uniforms: Uniforms): void;
+  dispose(): void;
+}
+
+export interface GLContext {
+  readonly canvas: HTMLCanvasElement;
+  // Compile a fullscreen-quad program; the fragment shader receives vUv (0-1, origin bottom-left)
+  createProgram(fragmentShader: string): ShaderProgram;
+  // Size the drawing buffer at scale x the CSS size
+  setSize(width: number, height: number, scale: number): void;
+  clear(): void;
+  dispose(): void;
+}
+
+// Vertex shader - fullscreen quad in clip space
+const vertexShader = `
+  attribute vec2 aPosition;
+  varying vec2 vUv;
+  void main() {
+    vUv = aPosition * 0.5 + 0.5;
+    gl_Position = vec4(aPosition, 0.0, 1.0);
+  }
+`;
+
+const QUAD_VERTICES = new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]);
+
+export function createDataTexture(data: Uint8Array, width: number, height: number): DataTexture {
+  return { data, width, height, needsUpdate: true };
+}
+
+function isDataTexture(value: UniformValue): value is DataTexture {
+  return typeof value === "object" && "data" in value;
+}
+
+function compileShader(gl: WebGL2RenderingContext, type: number, source: string): WebGLShader {
+  const shader = gl.createShader(type)!;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader);
+    gl.deleteShader(shader);
+    throw new Error(`Shader compile failed: ${log}`);
+  }
+  return shader;
+}
+
+// Create a WebGL2 context on a new canvas (null when WebGL2 is unavailable)
+export function createGLContext(): GLContext | null {
+  const canvas = document.createElement("canvas");
+  const gl = canvas.getContext("webgl2", {
+    alpha: true, // Transparent background
+    antialias: false, // The glow has no hard edges to smooth
+    premultipliedAlpha: false,
+    depth: false,
+    stencil: false,
+    powerPreference: "low-power",
+  });
+  if (!gl) return null;
+
+  const quadBuffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, quadBuffer);
+  gl.bufferData(gl.ARRAY_BUFFER, QUAD_VERTICES, gl.STATIC_DRAW);
+
+  // Straight-alpha blending over the transparent clear colour
+  gl.enable(gl.BLEND);
+  gl.blendFuncSeparate(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA, gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+  gl.clearColor(0, 0, 0, 0);
+
+  // GPU textures for each data texture, created on first use
+  const textures = new Map<DataTexture, WebGLTexture>();
+
+  const bindTexture = (texture: DataTexture, unit: number) => {
+    gl.activeTexture(gl.TEXTURE0 + unit);
+
+    let glTexture = textures.get(texture);
+    if (!glTexture) {
+      glTexture = gl.createTexture()!;
+      gl.bindTexture(gl.TEXTURE_2D, glTexture);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      textures.set(texture, glTexture);
+      texture.needsUpdate = true;
+    } else {
+      gl.bindTexture(gl.TEXTURE_2D, glTexture);
+    }
+
+    if (texture.needsUpdate) {
+      gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.R8, texture.width, texture.height, 0, gl.RED, gl.UNSIGNED_BYTE, texture.data);
+      texture.needsUpdate = false;
+    }
+  };
+
+  return {
+    canvas,
+
+    createProgram(fragmentShader: string): ShaderProgram {
+      const vertex = compileShader(gl, gl.VERTEX_SHADER, vertexShader);
+      const fragment = compileShader(gl, gl.FRAGMENT_SHADER, `precision highp float;\n${fragmentShader}`);
+      const program = gl.createProgram()!;
+      gl.attachShader(program, vertex);
+      gl.attachShader(program, fragment);
+      gl.linkProgram(program);
+      gl.deleteShader(vertex);
+      gl.deleteShader(fragment);
+      if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+        const log = gl.getProgramInfoLog(program);
+        gl.deleteProgram(program);
+        throw new Error(`Program link failed: ${log}`);
+      }
+
+      // Reflect active uniforms so values can be uploaded by name ("uPalette[0]" -> "uPalette")
+      const activeUniforms: { name: string; type: number; location: WebGLUniformLocation }[] = [];
+      const count = gl.getProgramParameter(program, gl.ACTIVE_UNIFORMS) as number;
+      for (let i = 0; i < count; i++) {
+        const info = gl.getActiveUniform(program, i)!;
+        const location = gl.getUniformLocation(program, info.name)!;
+        activeUniforms.push({ name: info.name.replace(/\[0\]$/, ""), type: info.type, location });
+      }
+
+      const vertexArray = gl.createVertexArray();
+      gl.bindVertexArray(vertexArray);
+      gl.bindBuffer(gl.ARRAY_BUFFER, quadBuffer);
+      const positionLocation = gl.getAttribLocation(program, "aPosition");
+      gl.enableVertexAttribArray(positionLocation);
+      gl.vertexAttribPointer(positionLocation, 2, gl.FLOAT, false, 0, 0);
+      gl.bindVertexArray(null);
+
+      return {
+        draw(uniforms: Uniforms) {
+          gl.useProgram(program);
+
+          let textureUnit = 0;
+          for (const { name, type, location } of activeUniforms) {
+            const value = uniforms[name]?.value;
+            if (value === undefined) continue;
+
+            if (isDataTexture(value)) {
+              bindTexture(value, textureUnit);
+              gl.uniform1i(location, textureUnit++);
+            } else if (type === gl.INT) {
+              gl.uniform1i(location, value as number);
+            } else if (type === gl.FLOAT_VEC2) {
+              gl.uniform2fv(location, value as Float32Array);
+            } else if (type === gl.FLOAT_VEC3) {
+              gl.uniform3fv(location, value as Float32Array);
+            } else if (typeof value === "number") {
+              gl.uniform1f(location, value);
+            } else {
+              gl.uniform1fv(location, value);
+            }
+          }
+
+          gl.bindVertexArray(vertexArray);
+          gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+          gl.bindVertexArray(null);
+        },
+
+        dispose() {
+          gl.deleteVertexArray(vertexArray);
+          gl.deleteProgram(program);
+        },
+      };
+    },
+
+    setSize(width: number, height: number, scale: number) {
+      canvas.width = Math.max(1, Math.round(width * scale));
+      canvas.height = Math.max(1, Math.round(height * scale));
+      gl.viewport(0, 0, canvas.width, canvas.height);
+    },
+
+    clear() {
+      gl.clear(gl.COLOR_BUFFER_BIT);
+    },
+
+    dispose() {
+      for (const texture of textures.values()) {
+        gl.deleteTexture(texture);
+      }
+      textures.clear();
+      gl.deleteBuffer(quadBuffer);
+      // Release the context now rather than waiting for garbage collection
+      gl.getExtension("WEBGL_lose_context")?.loseContext();
+    },
+  };
+}
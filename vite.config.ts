@@ -36,11 +36,19 @@ function copyStaticFiles() {
       }
       copyFileSync("src/popup/popup.html", "dist/popup/popup.html");
       console.log("Copied popup.html");
+
+      // Copy permission folder
+      if (!existsSync("dist/permission")) {
+        mkdirSync("dist/permission", { recursive: true });
+      }
+      copyFileSync("src/permission/permission.html", "dist/permission/permission.html");
+      console.log("Copied permission.html");
     },
   };
 }
 
-export default defineConfig({
+// Extension pages and the service worker (ES modules, may share chunks)
+const extensionConfig = {
   build: {
     outDir: "dist",
     emptyOutDir: true, // Fixed: was emptyDirOnBuild
@@ -49,7 +57,7 @@ export default defineConfig({
         background: resolve(__dirname, "src/background.ts"),
         offscreen: resolve(__dirname, "src/offscreen.ts"),
         popup: resolve(__dirname, "src/popup/popup.ts"),
-        content: resolve(__dirname, "src/content.ts"),
+        permission: resolve(__dirname, "src/permission/permission.ts"),
       },
       output: {
         entryFileNames: "[name].js",
@@ -59,4 +67,52 @@ export default defineConfig({
     },
   },
   plugins: [copyStaticFiles()],
+};
+
+// Content scripts, built with `--mode <name>`
+const contentScripts: Record<string, string> = {
+  content: "src/content.ts",
+  mediaSessionBridge: "src/mediaSessionBridge.ts",
+};
+
+// Content scripts can't import chunks, so each is built separately as one self-contained file
+function contentScriptConfig(name: string) {
+  return {
+    build: {
+      outDir: "dist",
+      emptyOutDir: false,
+      rollupOptions: {
+        input: {
+          [name]: resolve(__dirname, contentScripts[name]),
+        },
+        output: {
+          format: "iife" as const,
+          entryFileNames: "[name].js",
+        },
+      },
+    },
+  };
+}
+
+// Node command-line tools, built with `--mode cli` into a separate folder (not part of the extension)
+const cliConfig = {
+  build: {
+    outDir: "dist-cli",
+    emptyOutDir: true,
+    ssr: true,
+    target: "node20",
+    rollupOptions: {
+      input: {
+        analyzeWav: resolve(__dirname, "src/cli/analyzeWav.ts"),
+      },
+      output: {
+        entryFileNames: "[name].js",
+      },
+    },
+  },
+};
+
+export default defineConfig(({ mode }) => {
+  if (mode === "cli") return cliConfig;
+  return mode in contentScripts ? contentScriptConfig(mode) : extensionConfig;
 });